@@ -9,10 +9,18 @@ import {
   CropperGrid,
   CropperHandle,
   CropperImage,
+  type CropperImageMatrix,
   CropperSelection,
+  type CropperSelectionValue,
   CropperShade,
+  CropperViewer,
+  type CropShape,
+  exportCrop,
+  toNaturalRect,
+  useCropExporter,
+  useImageSource,
 } from 'cropperjs-react-wrapper';
-import { useEffect, useRef, useState } from 'react';
+import { useRef, useState } from 'react';
 import image1 from '../assets/image1.png';
 import image2 from '../assets/image2.png';
 
@@ -23,17 +31,23 @@ const App = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Image state
-  const [imgSrc, setImgSrc] = useState(image1);
+  const imageSource = useImageSource({
+    initialSrc: image1,
+    maxSize: 20 * 1024 * 1024,
+    paste: true,
+    prepare: { maxWidth: 4096, maxHeight: 4096 },
+  });
+  const exporter = useCropExporter();
   const [croppedImage, setCroppedImage] = useState<string | undefined>();
-  const [livePreview, setLivePreview] = useState<string | undefined>();
 
   // Canvas controls
   const [canvasBackground, setCanvasBackground] = useState(true);
   const [canvasDisabled, setCanvasDisabled] = useState(false);
 
-  // Image transformation controls (track flip state)
-  const [scaleX, setScaleX] = useState(1);
-  const [scaleY, setScaleY] = useState(1);
+  // Image transformation (rotation and flip state)
+  const [transform, setTransform] = useState<CropperImageMatrix>([
+    1, 0, 0, 1, 0, 0,
+  ]);
 
   // Selection controls
   const [showShade, setShowShade] = useState(false);
@@ -41,6 +55,7 @@ const App = () => {
   const [showCrosshair, setShowCrosshair] = useState(true);
   const [aspectRatio, setAspectRatio] = useState<number | undefined>(undefined);
   const [themeColor, setThemeColor] = useState('#3399ff');
+  const [shape, setShape] = useState<CropShape>('rect');
   const [movable, setMovable] = useState(true);
   const [resizable, setResizable] = useState(true);
   const [zoomable, setZoomable] = useState(true);
@@ -66,48 +81,37 @@ const App = () => {
     'basic' | 'transform' | 'advanced' | 'actions'
   >('basic');
 
-  const updateLivePreview = async () => {
-    const selection = selectionRef.current;
-    if (selection) {
-      const canvas = await selection.$toCanvas();
-      setLivePreview(canvas.toDataURL());
-    }
+  const updateCropData = ({ x, y, width, height }: CropperSelectionValue) => {
+    setCropData({
+      x: Math.round(x),
+      y: Math.round(y),
+      width: Math.round(width),
+      height: Math.round(height),
+    });
   };
 
   const onCrop = () => {
-    updateLivePreview();
+    const image = imageRef.current;
     const selection = selectionRef.current;
-    if (selection) {
-      setCropData({
-        x: Math.round(selection.x),
-        y: Math.round(selection.y),
-        width: Math.round(selection.width),
-        height: Math.round(selection.height),
-      });
+    const natural = image && selection && toNaturalRect(image, selection);
+    if (natural) {
+      updateCropData(natural);
     }
   };
 
   const handleGetResult = async () => {
     const selection = selectionRef.current;
     if (selection) {
-      const canvas = await selection.$toCanvas();
-      const mimeType = `image/${exportFormat}`;
-      const dataUrl = canvas.toDataURL(mimeType, exportQuality);
-      setCroppedImage(dataUrl);
-    }
-  };
-
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const result = event.target?.result;
-        if (typeof result === 'string') {
-          setImgSrc(result);
-        }
-      };
-      reader.readAsDataURL(file);
+      const blob = await exportCrop(selection, {
+        type: `image/${exportFormat}`,
+        quality: exportQuality,
+        fillColor: exportFormat === 'jpeg' ? '#fff' : undefined,
+        shape,
+      });
+      setCroppedImage((previous) => {
+        if (previous) URL.revokeObjectURL(previous);
+        return URL.createObjectURL(blob);
+      });
     }
   };
 
@@ -119,37 +123,25 @@ const App = () => {
   };
 
   const handleFlipHorizontal = () => {
-    const newScaleX = scaleX * -1;
-    setScaleX(newScaleX);
-  };
-
-  const handleFlipVertical = () => {
-    const newScaleY = scaleY * -1;
-    setScaleY(newScaleY);
-  };
-
-  const handleZoom = (delta: number) => {
     const image = imageRef.current;
     if (image) {
-      image.$zoom(delta);
+      image.$scale(-1, 1);
     }
   };
 
-  // biome-ignore lint/correctness/useExhaustiveDependencies: normal
-  useEffect(() => {
+  const handleFlipVertical = () => {
     const image = imageRef.current;
     if (image) {
-      image.$scale(-1, scaleY);
+      image.$scale(1, -1);
     }
-  }, [scaleX]);
+  };
 
-  // biome-ignore lint/correctness/useExhaustiveDependencies: normal
-  useEffect(() => {
+  const handleZoom = (delta: number) => {
     const image = imageRef.current;
     if (image) {
-      image.$scale(scaleX, -1);
+      image.$zoom(delta);
     }
-  }, [scaleY]);
+  };
 
   const handleResetTransformations = () => {
     const image = imageRef.current;
@@ -173,12 +165,18 @@ const App = () => {
   };
 
   const downloadImage = async () => {
-    if (!livePreview) return;
+    const selection = selectionRef.current;
+    if (!selection) return;
 
     try {
-      // Convert data URL to blob
-      const response = await fetch(livePreview);
-      const blob = await response.blob();
+      // Full resolution, from the original of a picked file, in a worker
+      const blob = await exporter.export(selection, {
+        prepared: imageSource.image ?? undefined,
+        type: `image/${exportFormat}`,
+        quality: exportQuality,
+        fillColor: exportFormat === 'jpeg' ? '#fff' : undefined,
+        shape,
+      });
 
       // Create download link
       const url = URL.createObjectURL(blob);
@@ -192,6 +190,8 @@ const App = () => {
       // Clean up
       URL.revokeObjectURL(url);
     } catch (error) {
+      // A newer download replaced this one
+      if (error instanceof DOMException && error.name === 'AbortError') return;
       console.error('Error downloading image:', error);
     }
   };
@@ -204,7 +204,11 @@ const App = () => {
         <div className="cropper-wrapper">
           <div className="cropper-container">
             <CropperCanvas
-              style={{ height: '500px' }}
+              {...imageSource.dropProps}
+              style={{
+                height: '500px',
+                outline: imageSource.dragging ? '2px dashed #39f' : undefined,
+              }}
               ref={cropperRef}
               background={canvasBackground}
               disabled={canvasDisabled}
@@ -212,14 +216,18 @@ const App = () => {
             >
               <CropperImage
                 ref={imageRef}
-                src={imgSrc}
+                src={imageSource.src}
                 alt="Picture"
                 rotatable={true}
                 scalable={true}
                 skewable={true}
                 translatable={true}
+                transform={transform}
+                onTransformChange={setTransform}
               />
-              {showShade && <CropperShade themeColor={themeColor} />}
+              {showShade && (
+                <CropperShade themeColor={themeColor} shape={shape} />
+              )}
               <CropperHandle action="select" plain />
               <CropperSelection
                 ref={selectionRef}
@@ -230,8 +238,11 @@ const App = () => {
                 zoomable={zoomable}
                 keyboard={true}
                 outlined={true}
-                bounded={true}
-                onChange={onCrop}
+                shape={shape}
+                bounded="clamp"
+                minWidth={32}
+                minHeight={32}
+                onNaturalValueChange={updateCropData}
                 themeColor={themeColor}
               >
                 {showGrid && (
@@ -264,23 +275,26 @@ const App = () => {
 
           <div className="live-preview-section">
             <h3>Live Preview</h3>
-            {livePreview ? (
-              <div>
-                <img
-                  src={livePreview}
-                  alt="Live Preview"
-                  className="live-preview-image"
-                />
-                <button
-                  type="button"
-                  onClick={downloadImage}
-                  className="primary"
-                  style={{ width: '100%', marginTop: '8px' }}
-                >
-                  Download Image
-                </button>
-              </div>
-            ) : null}
+            <div className="live-preview-viewers">
+              <CropperViewer
+                selection={selectionRef}
+                className="live-preview-image"
+                width={160}
+              />
+              <CropperViewer
+                selection={selectionRef}
+                className="live-preview-image"
+                width={80}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={downloadImage}
+              className="primary"
+              style={{ width: '100%', marginTop: '8px' }}
+            >
+              Download Image
+            </button>
             {cropData && (
               <div className="crop-data">
                 <div>X: {cropData.x}</div>
@@ -330,10 +344,16 @@ const App = () => {
                 <div className="control-section">
                   <h3>Image Source</h3>
                   <div className="control-group">
-                    <button type="button" onClick={() => setImgSrc(image1)}>
+                    <button
+                      type="button"
+                      onClick={() => imageSource.setSrc(image1)}
+                    >
                       Image 1
                     </button>
-                    <button type="button" onClick={() => setImgSrc(image2)}>
+                    <button
+                      type="button"
+                      onClick={() => imageSource.setSrc(image2)}
+                    >
                       Image 2
                     </button>
                     <button
@@ -344,12 +364,23 @@ const App = () => {
                     </button>
                     <input
                       ref={fileInputRef}
-                      type="file"
-                      accept="image/*"
+                      {...imageSource.inputProps}
                       style={{ display: 'none' }}
-                      onChange={handleFileUpload}
                     />
                   </div>
+                  {imageSource.progress && (
+                    <p>
+                      Reading…{' '}
+                      {Math.round(
+                        (imageSource.progress.loaded /
+                          imageSource.progress.total) *
+                          100,
+                      )}
+                      %
+                    </p>
+                  )}
+                  {imageSource.error && <p>{imageSource.error.message}</p>}
+                  <p>Or drop an image on the canvas, or paste one.</p>
                 </div>
 
                 <div className="control-section">
@@ -384,15 +415,36 @@ const App = () => {
                     <label>
                       Aspect Ratio:
                       <select
-                        value={aspectRatio}
-                        onChange={(e) => setAspectRatio(Number(e.target.value))}
+                        value={aspectRatio ?? ''}
+                        onChange={(e) =>
+                          setAspectRatio(
+                            e.target.value ? Number(e.target.value) : undefined,
+                          )
+                        }
                       >
                         <option value={16 / 9}>16:9 (Landscape)</option>
                         <option value={4 / 3}>4:3</option>
                         <option value={1}>1:1 (Square)</option>
                         <option value={3 / 4}>3:4 (Portrait)</option>
                         <option value={9 / 16}>9:16 (Story)</option>
-                        <option value={NaN}>Free</option>
+                        <option value="">Free</option>
+                      </select>
+                    </label>
+                    <label>
+                      Shape:
+                      <select
+                        value={typeof shape === 'string' ? shape : shape.type}
+                        onChange={(e) =>
+                          setShape(
+                            e.target.value === 'rounded'
+                              ? { type: 'rounded', radius: 16 }
+                              : (e.target.value as 'rect' | 'ellipse'),
+                          )
+                        }
+                      >
+                        <option value="rect">Rectangle</option>
+                        <option value="ellipse">Ellipse</option>
+                        <option value="rounded">Rounded</option>
                       </select>
                     </label>
                     <label>
@@ -0,0 +1,187 @@
+import type {
+  CropperCanvas as CropperCanvasElement,
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
+import { forwardRef, type ReactNode, useImperativeHandle, useRef } from 'react';
+import type { CropShape } from '../utils/shape';
+import { CropperCanvas, type CropperCanvasProps } from './CropperCanvas';
+import { CropperCrosshair } from './CropperCrosshair';
+import { CropperGrid } from './CropperGrid';
+import { CropperHandle } from './CropperHandle';
+import { CropperImage, type CropperImageProps } from './CropperImage';
+import {
+  CropperSelection,
+  type CropperSelectionProps,
+} from './CropperSelection';
+import { CropperShade } from './CropperShade';
+
+/** `true` renders the default part, `false` hides it, a node replaces it. */
+export type CropperSlot = boolean | ReactNode;
+
+export interface CropperProps extends Omit<CropperCanvasProps, 'children'> {
+  src: string;
+  alt?: string;
+  crossOrigin?: CropperImageProps['crossOrigin'];
+  aspectRatio?: number;
+  initialAspectRatio?: number;
+  initialCoverage?: number;
+  /** The shape of the selection outline and the shade cut-out. */
+  shape?: CropShape;
+  imageProps?: Omit<CropperImageProps, 'ref' | 'src' | 'alt' | 'crossOrigin'>;
+  selectionProps?: Omit<
+    CropperSelectionProps,
+    | 'ref'
+    | 'aspectRatio'
+    | 'initialAspectRatio'
+    | 'initialCoverage'
+    | 'children'
+  >;
+  shade?: CropperSlot;
+  selectHandle?: CropperSlot;
+  grid?: CropperSlot;
+  crosshair?: CropperSlot;
+  moveHandle?: CropperSlot;
+  resizeHandles?: CropperSlot;
+  /** Extra content rendered inside the selection. */
+  children?: ReactNode;
+}
+
+export interface CropperRef {
+  readonly canvas: CropperCanvasElement | null;
+  readonly image: CropperImageElement | null;
+  readonly selection: CropperSelectionElement | null;
+}
+
+const RESIZE_ACTIONS = [
+  'n-resize',
+  'e-resize',
+  's-resize',
+  'w-resize',
+  'ne-resize',
+  'nw-resize',
+  'se-resize',
+  'sw-resize',
+];
+
+const renderSlot = (slot: CropperSlot, fallback: ReactNode) => {
+  if (slot === true) return fallback;
+  if (slot === false) return null;
+  return slot;
+};
+
+export const Cropper = forwardRef<CropperRef, CropperProps>(
+  (
+    {
+      src,
+      alt,
+      crossOrigin,
+      aspectRatio,
+      initialAspectRatio,
+      initialCoverage = 0.5,
+      shape,
+      themeColor,
+      imageProps,
+      selectionProps,
+      shade = false,
+      selectHandle = true,
+      grid = true,
+      crosshair = true,
+      moveHandle = true,
+      resizeHandles = true,
+      background = true,
+      children,
+      ...rest
+    },
+    ref,
+  ) => {
+    const canvasRef = useRef<CropperCanvasElement>(null);
+    const imageRef = useRef<CropperImageElement>(null);
+    const selectionRef = useRef<CropperSelectionElement>(null);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        get canvas() {
+          return canvasRef.current;
+        },
+        get image() {
+          return imageRef.current;
+        },
+        get selection() {
+          return selectionRef.current;
+        },
+      }),
+      [],
+    );
+
+    return (
+      <CropperCanvas
+        ref={canvasRef}
+        background={background}
+        themeColor={themeColor}
+        {...rest}
+      >
+        <CropperImage
+          ref={imageRef}
+          src={src}
+          alt={alt}
+          crossOrigin={crossOrigin}
+          rotatable
+          scalable
+          skewable
+          translatable
+          {...imageProps}
+        />
+        {renderSlot(
+          shade,
+          <CropperShade themeColor={themeColor} shape={shape} />,
+        )}
+        {renderSlot(selectHandle, <CropperHandle action="select" plain />)}
+        <CropperSelection
+          ref={selectionRef}
+          aspectRatio={aspectRatio}
+          initialAspectRatio={initialAspectRatio}
+          initialCoverage={initialCoverage}
+          shape={shape}
+          movable
+          resizable
+          themeColor={themeColor}
+          {...selectionProps}
+        >
+          {renderSlot(
+            grid,
+            <CropperGrid
+              role="grid"
+              bordered
+              covered
+              themeColor={themeColor}
+            />,
+          )}
+          {renderSlot(
+            crosshair,
+            <CropperCrosshair centered themeColor={themeColor} />,
+          )}
+          {renderSlot(
+            moveHandle,
+            <CropperHandle
+              action="move"
+              themeColor="rgba(255, 255, 255, 0.35)"
+            />,
+          )}
+          {renderSlot(
+            resizeHandles,
+            RESIZE_ACTIONS.map((action) => (
+              <CropperHandle
+                key={action}
+                action={action}
+                themeColor={themeColor}
+              />
+            )),
+          )}
+          {children}
+        </CropperSelection>
+      </CropperCanvas>
+    );
+  },
+);
@@ -1,37 +1,47 @@
-import 'cropperjs';
-
 import type { CropperCanvas as CropperCanvasElement } from 'cropperjs';
 import {
   type DetailedHTMLProps,
   forwardRef,
   type HTMLAttributes,
-  useEffect,
   useImperativeHandle,
   useLayoutEffect,
   useRef,
 } from 'react';
+import { useCropperElementsDefined, useCropperTagName } from '../elements';
+import type {
+  CropperActionEvent,
+  CropperImageTransformEvent,
+  CropperSelectionChangeEvent,
+} from '../events';
+import { useElementProperties } from '../hooks/useElementProperties';
+import type { CropperElementProps } from '../properties';
 
 export interface CropperCanvasProps
-  extends Omit<
-    DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement>,
-    'onChange' | 'onLoad' | 'onError'
-  > {
+  extends CropperElementProps,
+    Omit<
+      DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement>,
+      'onChange' | 'onLoad' | 'onError'
+    > {
   background?: boolean;
   disabled?: boolean;
   scaleStep?: number;
-  themeColor?: string;
-  onAction?: (event: CustomEvent) => void;
-  onActionStart?: (event: CustomEvent) => void;
-  onActionMove?: (event: CustomEvent) => void;
-  onActionEnd?: (event: CustomEvent) => void;
-  onChange?: (event: CustomEvent) => void;
+  onAction?: (event: CropperActionEvent) => void;
+  onActionStart?: (event: CropperActionEvent) => void;
+  onActionMove?: (event: CropperActionEvent) => void;
+  onActionEnd?: (event: CropperActionEvent) => void;
+  /** Bubbled from child selections. */
+  onChange?: (event: CropperSelectionChangeEvent) => void;
+  /** @deprecated Never fires: Cropper.js doesn't dispatch `load` on the canvas. */
   onLoad?: (event: CustomEvent) => void;
+  /** @deprecated Never fires: Cropper.js doesn't dispatch `error` on the canvas. */
   onError?: (event: CustomEvent) => void;
+  /** @deprecated Never fires: `resize` is only dispatched on the window. */
   onResize?: (event: CustomEvent) => void;
-  onTransform?: (event: CustomEvent) => void;
+  /** Bubbled from child images. */
+  onTransform?: (event: CropperImageTransformEvent) => void;
 }
 
-export const CropperCanvas = forwardRef<
+const CropperCanvasContent = forwardRef<
   CropperCanvasElement,
   CropperCanvasProps
 >(
@@ -40,6 +50,8 @@ export const CropperCanvas = forwardRef<
       background,
       disabled,
       scaleStep,
+      shadowRootMode,
+      slottable,
       themeColor,
       onAction,
       onActionStart,
@@ -55,6 +67,7 @@ export const CropperCanvas = forwardRef<
     },
     ref,
   ) => {
+    const TagName = useCropperTagName('canvas');
     const elementRef = useRef<CropperCanvasElement>(null);
 
     useImperativeHandle(
@@ -64,15 +77,12 @@ export const CropperCanvas = forwardRef<
     );
 
     // Update props
-    useEffect(() => {
-      if (!elementRef.current) return;
-      const element = elementRef.current;
-
-      if (background !== undefined) element.background = background;
-      if (disabled !== undefined) element.disabled = disabled;
-      if (scaleStep !== undefined) element.scaleStep = scaleStep;
-      if (themeColor !== undefined) element.themeColor = themeColor;
-    }, [background, disabled, scaleStep, themeColor]);
+    useElementProperties(elementRef, {
+      background,
+      disabled,
+      scaleStep,
+      themeColor,
+    });
 
     // Event listeners
     useLayoutEffect(() => {
@@ -124,10 +134,35 @@ export const CropperCanvas = forwardRef<
 
     return (
       // @ts-expect-error
-      <cropper-canvas ref={elementRef} {...rest}>
+      <TagName
+        ref={elementRef}
+        shadow-root-mode={shadowRootMode}
+        slottable={slottable}
+        {...rest}
+      >
         {children}
         {/* @ts-ignore */}
-      </cropper-canvas>
+      </TagName>
     );
   },
 );
+
+/**
+ * Renders a bare placeholder tag on the server and until the Cropper.js
+ * elements are defined, so children only mount once they can upgrade.
+ */
+export const CropperCanvas = forwardRef<
+  CropperCanvasElement,
+  CropperCanvasProps
+>((props, ref) => {
+  const TagName = useCropperTagName('canvas');
+  const defined = useCropperElementsDefined();
+
+  if (!defined) {
+    const { id, className, style } = props;
+    // @ts-expect-error
+    return <TagName id={id} className={className} style={style} />;
+  }
+
+  return <CropperCanvasContent ref={ref} {...props} />;
+});
@@ -1,13 +1,24 @@
-import { render } from '@testing-library/react';
-import type {
-  CropperCanvas as CropperCanvasElement,
+import { act, render } from '@testing-library/react';
+import {
+  type CropperCanvas as CropperCanvasElement,
   CropperImage as CropperImageElement,
-  CropperSelection as CropperSelectionElement,
+  type CropperSelection as CropperSelectionElement,
+  type CropperViewer as CropperViewerElement,
 } from 'cropperjs';
-import { describe, expect, it } from 'vitest';
+import { createRef, useState } from 'react';
+import { renderToString } from 'react-dom/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { defineCropperElements } from '../elements';
+import { Cropper, type CropperRef } from './Cropper';
 import { CropperCanvas } from './CropperCanvas';
 import { CropperImage } from './CropperImage';
+import { CropperProvider } from './CropperProvider';
 import { CropperSelection } from './CropperSelection';
+import {
+  type CropperSelectionItem,
+  CropperSelections,
+} from './CropperSelections';
+import { CropperViewer } from './CropperViewer';
 
 describe('CropperCanvas', () => {
   it('renders cropper-canvas element', () => {
@@ -31,6 +42,28 @@ describe('CropperCanvas', () => {
   });
 });
 
+describe('CropperCanvas events', () => {
+  it('passes typed change details from child selections', () => {
+    const onChange = vi.fn();
+    const { container } = render(
+      <CropperCanvas onChange={onChange}>
+        <CropperSelection />
+      </CropperCanvas>,
+    );
+    const element = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    element.$change(5, 6, 70, 80);
+    expect(onChange).toHaveBeenCalled();
+    expect(onChange.mock.lastCall?.[0].detail).toEqual({
+      x: 5,
+      y: 6,
+      width: 70,
+      height: 80,
+    });
+  });
+});
+
 describe('CropperSelection', () => {
   it('renders cropper-selection element', () => {
     const { container } = render(<CropperSelection />);
@@ -55,6 +88,74 @@ describe('CropperSelection', () => {
     expect(element.initialCoverage).toBe(0.8);
     expect(element.movable).toBe(false);
   });
+
+  it('restores defaults for removed props', async () => {
+    const { container, rerender } = render(
+      <CropperSelection aspectRatio={16 / 9} movable={false} />,
+    );
+    const element = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    rerender(<CropperSelection movable />);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    // Cropper.js turns the default NaN into 0 through the attribute; both are free
+    expect(element.aspectRatio > 0).toBe(false);
+    expect(element.movable).toBe(true);
+  });
+});
+
+describe('CropperSelection geometry', () => {
+  const rect = { x: 10, y: 20, width: 100, height: 50 };
+
+  it('applies the uncontrolled default value', () => {
+    const { container } = render(
+      <CropperCanvas>
+        <CropperSelection defaultValue={rect} />
+      </CropperCanvas>,
+    );
+    const element = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    expect(element.x).toBe(10);
+    expect(element.width).toBe(100);
+  });
+
+  it('reports changes and waits for the controlled value', async () => {
+    const onValueChange = vi.fn();
+    const { container, rerender } = render(
+      <CropperCanvas>
+        <CropperSelection value={rect} onValueChange={onValueChange} />
+      </CropperCanvas>,
+    );
+    const element = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    // Wait for useEffect to run
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(element.y).toBe(20);
+
+    element.$change(30, 40, 60, 60);
+    expect(onValueChange).toHaveBeenLastCalledWith({
+      x: 30,
+      y: 40,
+      width: 60,
+      height: 60,
+    });
+    // Not updating `value` vetoes the change
+    expect(element.x).toBe(10);
+
+    rerender(
+      <CropperCanvas>
+        <CropperSelection
+          value={{ x: 30, y: 40, width: 60, height: 60 }}
+          onValueChange={onValueChange}
+        />
+      </CropperCanvas>,
+    );
+    expect(element.x).toBe(30);
+    expect(element.height).toBe(60);
+  });
 });
 
 describe('CropperImage', () => {
@@ -78,3 +179,679 @@ describe('CropperImage', () => {
     expect(element.crossorigin).toBe('anonymous');
   });
 });
+
+describe('CropperImage lifecycle', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Makes each `$ready()` call return a promise settled by the test
+  const mockReady = () => {
+    const calls: {
+      resolve: () => void;
+      reject: (error: Error) => void;
+    }[] = [];
+    vi.spyOn(CropperImageElement.prototype, '$ready').mockImplementation(
+      () =>
+        new Promise((resolve, reject) => {
+          calls.push({ resolve: () => resolve(new Image()), reject });
+        }),
+    );
+    return calls;
+  };
+
+  it('reports loading, load and ready', async () => {
+    const calls = mockReady();
+    const handleStatusChange = vi.fn();
+    const handleLoad = vi.fn();
+    const handleReady = vi.fn();
+    render(
+      <CropperImage
+        src="image.png"
+        onStatusChange={handleStatusChange}
+        onLoad={handleLoad}
+        onReady={handleReady}
+      />,
+    );
+    expect(handleStatusChange).toHaveBeenLastCalledWith('loading');
+    expect(handleReady).not.toHaveBeenCalled();
+
+    await act(async () => {
+      calls[0].resolve();
+    });
+    expect(handleLoad).toHaveBeenCalledTimes(1);
+    expect(handleReady).toHaveBeenCalledTimes(1);
+    expect(handleStatusChange).toHaveBeenLastCalledWith('ready');
+  });
+
+  it('reports errors', async () => {
+    const calls = mockReady();
+    const handleStatusChange = vi.fn();
+    const handleError = vi.fn();
+    render(
+      <CropperImage
+        src="broken.png"
+        onStatusChange={handleStatusChange}
+        onError={handleError}
+      />,
+    );
+
+    const error = new Error('Failed to load the image source');
+    await act(async () => {
+      calls[0].reject(error);
+    });
+    expect(handleError).toHaveBeenCalledWith(error);
+    expect(handleStatusChange).toHaveBeenLastCalledWith('error');
+  });
+
+  it('ignores sources replaced while loading', async () => {
+    const calls = mockReady();
+    const handleStatusChange = vi.fn();
+    const handleReady = vi.fn();
+    const { rerender } = render(
+      <CropperImage
+        src="first.png"
+        onStatusChange={handleStatusChange}
+        onReady={handleReady}
+      />,
+    );
+    rerender(
+      <CropperImage
+        src="second.png"
+        onStatusChange={handleStatusChange}
+        onReady={handleReady}
+      />,
+    );
+
+    await act(async () => {
+      calls[0].resolve();
+    });
+    expect(handleReady).not.toHaveBeenCalled();
+    expect(handleStatusChange).toHaveBeenLastCalledWith('loading');
+
+    await act(async () => {
+      calls[1].resolve();
+    });
+    expect(handleReady).toHaveBeenCalledTimes(1);
+    expect(handleStatusChange).toHaveBeenLastCalledWith('ready');
+  });
+});
+
+describe('CropperViewer', () => {
+  it('renders cropper-viewer element', () => {
+    const { container } = render(<CropperViewer />);
+    const element = container.querySelector('cropper-viewer');
+    expect(element).toBeInTheDocument();
+  });
+
+  it('sets props as properties', async () => {
+    const { container } = render(
+      <CropperViewer selection="#selection" resize="both" width={160} />,
+    );
+    const element = container.querySelector(
+      'cropper-viewer',
+    ) as CropperViewerElement;
+    // Wait for useEffect to run
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(element.selection).toBe('#selection');
+    expect(element.resize).toBe('both');
+    expect(element.style.width).toBe('160px');
+  });
+
+  it('targets a selection by ref', async () => {
+    const selectionRef = createRef<CropperSelectionElement>();
+    const { container } = render(
+      <>
+        <CropperCanvas>
+          <CropperSelection ref={selectionRef} />
+        </CropperCanvas>
+        <CropperViewer selection={selectionRef} />
+        <CropperViewer selection={selectionRef} />
+      </>,
+    );
+    // Wait for useEffect to run
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const viewers = container.querySelectorAll('cropper-viewer');
+    expect(viewers).toHaveLength(2);
+    viewers.forEach((viewer) => {
+      const selector = (viewer as CropperViewerElement).selection;
+      expect(container.querySelector(selector)).toBe(selectionRef.current);
+    });
+  });
+
+  it('forwards the element it remounts for a ref target', async () => {
+    const selectionRef = createRef<CropperSelectionElement>();
+    const viewerRef = createRef<CropperViewerElement>();
+    const { container } = render(
+      <>
+        <CropperCanvas>
+          <CropperSelection ref={selectionRef} />
+        </CropperCanvas>
+        <CropperViewer ref={viewerRef} selection={selectionRef} />
+      </>,
+    );
+    await act(async () => {});
+    const viewer = viewerRef.current as CropperViewerElement;
+    expect(viewer).toBe(container.querySelector('cropper-viewer'));
+    expect(viewer.isConnected).toBe(true);
+  });
+});
+
+describe('CropperViewer before the elements are defined', () => {
+  it('forwards the element once it is defined', async () => {
+    const viewerRef = createRef<CropperViewerElement>();
+    const { container } = render(
+      <CropperProvider prefix="lazy">
+        <CropperViewer ref={viewerRef} width={160} />
+      </CropperProvider>,
+    );
+    expect(customElements.get('lazy-viewer')).toBeUndefined();
+    expect(viewerRef.current).toBeNull();
+    expect(
+      (container.querySelector('lazy-viewer') as HTMLElement).style.width,
+    ).toBe('160px');
+
+    await act(() => defineCropperElements({ prefix: 'lazy' }));
+    expect(viewerRef.current).toBe(container.querySelector('lazy-viewer'));
+    expect(viewerRef.current?.isConnected).toBe(true);
+  });
+});
+
+describe('CropperImage transform', () => {
+  it('reports transforms and waits for the controlled matrix', async () => {
+    const onTransformChange = vi.fn();
+    const { container, rerender } = render(
+      <CropperCanvas>
+        <CropperImage
+          rotatable
+          scalable
+          transform={{ scaleX: -1 }}
+          onTransformChange={onTransformChange}
+        />
+      </CropperCanvas>,
+    );
+    const element = container.querySelector(
+      'cropper-image',
+    ) as CropperImageElement;
+    // Wait for useEffect to run
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(element.$getTransform()).toEqual([-1, 0, 0, 1, 0, 0]);
+
+    element.$scale(1, -1);
+    expect(onTransformChange).toHaveBeenLastCalledWith(
+      [-1, 0, 0, -1, 0, 0],
+      expect.objectContaining({ scaleX: 1, scaleY: 1 }),
+    );
+    // Not updating `transform` vetoes the change
+    expect(element.$getTransform()).toEqual([-1, 0, 0, 1, 0, 0]);
+
+    rerender(
+      <CropperCanvas>
+        <CropperImage
+          rotatable
+          scalable
+          transform={[-1, 0, 0, -1, 0, 0]}
+          onTransformChange={onTransformChange}
+        />
+      </CropperCanvas>,
+    );
+    expect(element.$getTransform()).toEqual([-1, 0, 0, -1, 0, 0]);
+  });
+});
+
+describe('Cropper', () => {
+  it('renders the default template', () => {
+    const { container } = render(<Cropper src="test.jpg" />);
+    expect(container.querySelector('cropper-canvas')).toBeInTheDocument();
+    expect(container.querySelector('cropper-image')).toBeInTheDocument();
+    expect(container.querySelector('cropper-shade')).not.toBeInTheDocument();
+    expect(container.querySelector('cropper-grid')).toBeInTheDocument();
+    expect(container.querySelector('cropper-crosshair')).toBeInTheDocument();
+    expect(container.querySelectorAll('cropper-handle')).toHaveLength(10);
+  });
+
+  it('turns off and swaps parts', () => {
+    const { container } = render(
+      <Cropper
+        src="test.jpg"
+        shade
+        crosshair={false}
+        resizeHandles={false}
+        grid={<span data-testid="custom-grid" />}
+      />,
+    );
+    expect(container.querySelector('cropper-shade')).toBeInTheDocument();
+    expect(
+      container.querySelector('cropper-crosshair'),
+    ).not.toBeInTheDocument();
+    expect(container.querySelector('cropper-grid')).not.toBeInTheDocument();
+    expect(
+      container.querySelector('[data-testid="custom-grid"]'),
+    ).toBeInTheDocument();
+    expect(container.querySelectorAll('cropper-handle')).toHaveLength(2);
+  });
+
+  it('exposes the underlying elements', async () => {
+    const cropperRef = createRef<CropperRef>();
+    const { container } = render(
+      <Cropper ref={cropperRef} src="test.jpg" aspectRatio={2} />,
+    );
+    expect(cropperRef.current?.canvas).toBe(
+      container.querySelector('cropper-canvas'),
+    );
+    expect(cropperRef.current?.image).toBe(
+      container.querySelector('cropper-image'),
+    );
+    // Wait for useEffect to run
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(cropperRef.current?.selection?.aspectRatio).toBe(2);
+  });
+});
+
+describe('CropperSelection bounded', () => {
+  const renderBounded = (bounded: 'cancel' | 'clamp') => {
+    const { container } = render(
+      <CropperCanvas>
+        <CropperImage rotatable scalable />
+        <CropperSelection bounded={bounded} />
+      </CropperCanvas>,
+    );
+    const image = container.querySelector('cropper-image') as HTMLElement;
+    Object.defineProperty(image, 'offsetWidth', { value: 200 });
+    Object.defineProperty(image, 'offsetHeight', { value: 100 });
+    return container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+  };
+
+  it('cancels changes that leave the image', () => {
+    const element = renderBounded('cancel');
+    element.$change(0, 0, 100, 50);
+    element.$change(150, 0, 100, 50);
+    expect(element.x).toBe(0);
+  });
+
+  it('clamps changes at the image edge', () => {
+    const element = renderBounded('clamp');
+    element.$change(0, 0, 100, 50);
+    element.$change(150, 0, 100, 50);
+    expect(element.x).toBe(100);
+    expect(element.width).toBe(100);
+  });
+});
+
+describe('CropperSelection size limits', () => {
+  it('clamps resizes at the limit', () => {
+    const { container } = render(
+      <CropperCanvas>
+        <CropperSelection minWidth={20} maxWidth={100} />
+      </CropperCanvas>,
+    );
+    const element = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    element.$change(0, 0, 50, 50);
+    element.$change(0, 0, 150, 50);
+    expect(element.width).toBe(100);
+    element.$change(90, 0, 10, 50);
+    expect(element.x).toBe(80);
+    expect(element.width).toBe(20);
+  });
+
+  it('cancels changes no size fits before clamping them to the image', () => {
+    const { container } = render(
+      <CropperCanvas>
+        <CropperImage />
+        <CropperSelection bounded="clamp" minWidth={120} maxWidth={100} />
+      </CropperCanvas>,
+    );
+    const image = container.querySelector('cropper-image') as HTMLElement;
+    Object.defineProperty(image, 'offsetWidth', { value: 200 });
+    Object.defineProperty(image, 'offsetHeight', { value: 100 });
+    const element = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    const change = vi.spyOn(element, '$change');
+
+    element.$change(150, 0, 100, 50);
+    expect(change).toHaveBeenCalledTimes(1);
+    expect(element.width).toBe(0);
+  });
+
+  it('measures natural limits in image pixels', () => {
+    const { container } = render(
+      <CropperCanvas>
+        <CropperImage />
+        <CropperSelection maxWidth={100} sizeUnit="natural" />
+      </CropperCanvas>,
+    );
+    const image = container.querySelector(
+      'cropper-image',
+    ) as CropperImageElement;
+    Object.defineProperty(image, 'offsetWidth', { value: 200 });
+    Object.defineProperty(image, 'offsetHeight', { value: 100 });
+    Object.defineProperty(image.$image, 'naturalWidth', { value: 400 });
+    Object.defineProperty(image.$image, 'naturalHeight', { value: 200 });
+    const element = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    element.$change(0, 0, 80, 40);
+    expect(element.width).toBe(50);
+  });
+});
+
+describe('CropperSelection natural values', () => {
+  it('reports changes in natural image pixels', () => {
+    const handleNaturalValueChange = vi.fn();
+    const { container } = render(
+      <CropperCanvas>
+        <CropperImage />
+        <CropperSelection onNaturalValueChange={handleNaturalValueChange} />
+      </CropperCanvas>,
+    );
+    const image = container.querySelector(
+      'cropper-image',
+    ) as CropperImageElement;
+    Object.defineProperty(image, 'offsetWidth', { value: 200 });
+    Object.defineProperty(image, 'offsetHeight', { value: 100 });
+    Object.defineProperty(image.$image, 'naturalWidth', { value: 400 });
+    Object.defineProperty(image.$image, 'naturalHeight', { value: 200 });
+    const element = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    element.$change(10, 20, 30, 40);
+    expect(handleNaturalValueChange).toHaveBeenCalledWith({
+      x: 20,
+      y: 40,
+      width: 60,
+      height: 80,
+    });
+  });
+});
+
+describe('CropperImage coverSelection', () => {
+  const renderCovered = (coverSelection: true | 'cancel') => {
+    const { container } = render(
+      <CropperCanvas>
+        <CropperImage translatable coverSelection={coverSelection} />
+        <CropperSelection />
+      </CropperCanvas>,
+    );
+    const image = container.querySelector(
+      'cropper-image',
+    ) as CropperImageElement;
+    Object.defineProperty(image, 'offsetWidth', { value: 200 });
+    Object.defineProperty(image, 'offsetHeight', { value: 100 });
+    const selection = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    selection.$change(0, 0, 100, 50);
+    return image;
+  };
+
+  it('pans back to close gaps', async () => {
+    const image = renderCovered(true);
+    // Wait for useEffect to run
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    image.$move(-150, 0);
+    expect(image.$getTransform()).toEqual([1, 0, 0, 1, -100, 0]);
+  });
+
+  it('cancels transforms that leave gaps', async () => {
+    const image = renderCovered('cancel');
+    // Wait for useEffect to run
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    image.$move(-150, 0);
+    expect(image.$getTransform()).toEqual([1, 0, 0, 1, 0, 0]);
+    image.$move(-50, 0);
+    expect(image.$getTransform()).toEqual([1, 0, 0, 1, -50, 0]);
+  });
+});
+
+describe('CropperSelections', () => {
+  const renderSelections = (
+    initial: CropperSelectionItem[],
+    initialActiveId = initial[0]?.id ?? null,
+  ) => {
+    const handleAdd = vi.fn();
+    const handleRemove = vi.fn();
+    let current = initial;
+    const Harness = () => {
+      const [selections, setSelections] = useState(initial);
+      const [activeId, setActiveId] = useState<string | null>(initialActiveId);
+      current = selections;
+      return (
+        <CropperCanvas>
+          <CropperSelections
+            selections={selections}
+            onSelectionsChange={setSelections}
+            activeId={activeId}
+            onActiveIdChange={setActiveId}
+            onAdd={handleAdd}
+            onRemove={handleRemove}
+            createId={() => 'new'}
+            selectionProps={{ keyboard: true }}
+          />
+        </CropperCanvas>
+      );
+    };
+    const { container } = render(<Harness />);
+    // The first selection is the hidden draft
+    const getAll = () =>
+      Array.from(
+        container.querySelectorAll('cropper-selection'),
+      ) as CropperSelectionElement[];
+    const getSelections = () => getAll().slice(1);
+    const draft = getAll()[0];
+    return {
+      handleAdd,
+      handleRemove,
+      getSelections,
+      getItems: () => current,
+      draft,
+    };
+  };
+
+  it('renders a selection per item', async () => {
+    const { getSelections } = renderSelections([
+      { id: 'a', x: 0, y: 0, width: 10, height: 10 },
+      { id: 'b', x: 20, y: 0, width: 10, height: 10 },
+    ]);
+    // Wait for the active state to settle
+    await act(async () => {});
+    const [a, b] = getSelections();
+    expect(b.x).toBe(20);
+    expect(a.active).toBe(true);
+    expect(b.active).toBe(false);
+  });
+
+  it('updates items from changes', () => {
+    const { getSelections } = renderSelections([
+      { id: 'a', x: 0, y: 0, width: 10, height: 10 },
+    ]);
+    act(() => {
+      getSelections()[0].$change(5, 5, 10, 10);
+    });
+    expect(getSelections()[0].x).toBe(5);
+  });
+
+  it('turns drawing on an empty canvas into an item', async () => {
+    const { handleAdd, getSelections, draft } = renderSelections([]);
+    await act(async () => {});
+    expect(draft.active).toBe(true);
+
+    act(() => {
+      draft.$change(10, 10, 30, 30);
+    });
+    expect(draft.width).toBe(0);
+    expect(handleAdd).toHaveBeenCalledWith({
+      id: 'new',
+      x: 10,
+      y: 10,
+      width: 30,
+      height: 30,
+    });
+    await act(async () => {});
+    const [added] = getSelections();
+    expect(added.width).toBe(30);
+    expect(added.active).toBe(true);
+  });
+
+  it.each([
+    { key: 'Delete', metaKey: false },
+    { key: 'Backspace', metaKey: true },
+  ])('reports selections removed with $key', async (init) => {
+    const { handleRemove, getSelections, getItems } = renderSelections(
+      [
+        { id: 'a', x: 0, y: 0, width: 10, height: 10 },
+        { id: 'b', x: 20, y: 0, width: 10, height: 10 },
+      ],
+      'b',
+    );
+    await act(async () => {});
+
+    act(() => {
+      document.body.dispatchEvent(
+        new KeyboardEvent('keydown', {
+          ...init,
+          bubbles: true,
+          cancelable: true,
+        }),
+      );
+    });
+    expect(handleRemove).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'b' }),
+    );
+    expect(getItems().map(({ id }) => id)).toEqual(['a']);
+    expect(getSelections().map(({ x }) => x)).toEqual([0]);
+  });
+
+  it('replaces selections cloned by Cropper.js', () => {
+    const { handleAdd, getSelections } = renderSelections([
+      { id: 'a', x: 0, y: 0, width: 10, height: 10 },
+    ]);
+    act(() => {
+      (
+        getSelections()[0] as unknown as {
+          $createSelection: () => CropperSelectionElement;
+        }
+      )
+        .$createSelection()
+        .$change(20, 20, 10, 10);
+    });
+    expect(handleAdd).toHaveBeenCalled();
+    expect(getSelections().map(({ x }) => x)).toEqual([0, 20]);
+  });
+});
+
+describe('server rendering', () => {
+  it('renders placeholders until the elements are defined', () => {
+    const html = renderToString(
+      <Cropper src="image.png" className="cropper">
+        <CropperViewer />
+      </Cropper>,
+    );
+    expect(html).toBe('<cropper-canvas class="cropper"></cropper-canvas>');
+  });
+});
+
+describe('CropperProvider', () => {
+  it('renders elements under a custom prefix', async () => {
+    await defineCropperElements({ prefix: 'acme' });
+    const selectionRef = createRef<CropperSelectionElement>();
+    const { container } = render(
+      <CropperProvider prefix="acme">
+        <CropperCanvas>
+          <CropperImage src="image.png" />
+          <CropperSelection ref={selectionRef} />
+        </CropperCanvas>
+      </CropperProvider>,
+    );
+
+    expect(container.querySelector('cropper-canvas')).toBeNull();
+    expect(container.querySelector('acme-image')).toBeInstanceOf(HTMLElement);
+    const selection = selectionRef.current as CropperSelectionElement;
+    expect(selection.localName).toBe('acme-selection');
+    selection.$change(10, 20, 30, 40);
+    expect(selection.width).toBe(30);
+  });
+});
+
+describe('defineCropperElements', () => {
+  it('rejects prefixes that make invalid element names', async () => {
+    await expect(defineCropperElements({ prefix: 'Acme' })).rejects.toThrow(
+      'Invalid Cropper.js element prefix "Acme"',
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() =>
+      render(
+        <CropperProvider prefix="1acme">
+          <CropperCanvas />
+        </CropperProvider>,
+      ),
+    ).toThrow('Invalid Cropper.js element prefix "1acme"');
+    vi.restoreAllMocks();
+  });
+
+  it('leaves the default names alone under a custom prefix', async () => {
+    const loadCropper = vi.fn();
+    vi.doMock('cropperjs', () => {
+      loadCropper();
+      return {};
+    });
+    try {
+      await defineCropperElements({ prefix: 'isolated' });
+    } finally {
+      vi.doUnmock('cropperjs');
+    }
+
+    expect(loadCropper).not.toHaveBeenCalled();
+    expect(customElements.get('isolated-canvas')).toBeDefined();
+  });
+});
+
+describe('Crop shapes', () => {
+  it('rounds the shade and the selection outline', async () => {
+    const { container, rerender } = render(
+      <Cropper src="image.png" shade shape="ellipse" />,
+    );
+    const shade = container.querySelector('cropper-shade') as HTMLElement;
+    const selection = container.querySelector(
+      'cropper-selection',
+    ) as HTMLElement;
+    expect(shade.style.borderRadius).toBe('50%');
+    expect(selection.style.borderRadius).toBe('50%');
+
+    rerender(
+      <Cropper src="image.png" shade shape={{ type: 'rounded', radius: 8 }} />,
+    );
+    expect(shade.style.borderRadius).toBe('8px');
+
+    rerender(<Cropper src="image.png" shade />);
+    expect(shade.style.borderRadius).toBe('');
+  });
+
+  it('draws custom paths in the shadow root', () => {
+    const shape = { type: 'path', path: 'M0.5 0L1 1H0Z' } as const;
+    const { container, rerender } = render(
+      <Cropper src="image.png" shade shape={shape} />,
+    );
+    const shade = container.querySelector('cropper-shade') as HTMLElement;
+    const selection = container.querySelector(
+      'cropper-selection',
+    ) as HTMLElement;
+
+    const cutout = shade.shadowRoot?.querySelector('[part=shape] path');
+    // The path is cut out of a rect covering the canvas
+    expect(cutout?.getAttribute('d')?.endsWith(`Z${shape.path}`)).toBe(true);
+    expect(cutout?.getAttribute('fill-rule')).toBe('evenodd');
+    expect(shade.style.outlineColor).toBe('transparent');
+    const outline = selection.shadowRoot?.querySelector('[part=shape] path');
+    expect(outline?.getAttribute('d')).toBe(shape.path);
+    expect(selection.style.outlineStyle).toBe('none');
+
+    rerender(<Cropper src="image.png" shade />);
+    expect(shade.shadowRoot?.querySelector('[part=shape]')).toBeNull();
+    expect(selection.style.outlineStyle).toBe('');
+  });
+});
@@ -3,21 +3,24 @@ import {
   type DetailedHTMLProps,
   forwardRef,
   type HTMLAttributes,
-  useEffect,
   useImperativeHandle,
   useRef,
 } from 'react';
+import { useCropperTagName } from '../elements';
+import { useElementProperties } from '../hooks/useElementProperties';
+import type { CropperElementProps } from '../properties';
 
 export interface CropperCrosshairProps
-  extends DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
+  extends CropperElementProps,
+    DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
   centered?: boolean;
-  themeColor?: string;
 }
 
 export const CropperCrosshair = forwardRef<
   CropperCrosshairElement,
   CropperCrosshairProps
->(({ centered, themeColor, ...rest }, ref) => {
+>(({ centered, shadowRootMode, slottable, themeColor, ...rest }, ref) => {
+  const TagName = useCropperTagName('crosshair');
   const elementRef = useRef<CropperCrosshairElement>(null);
 
   useImperativeHandle(
@@ -27,16 +30,15 @@ export const CropperCrosshair = forwardRef<
   );
 
   // Update props
-  useEffect(() => {
-    if (!elementRef.current) return;
-    const element = elementRef.current;
-
-    if (centered !== undefined) element.centered = centered;
-    if (themeColor !== undefined) element.themeColor = themeColor;
-  }, [centered, themeColor]);
+  useElementProperties(elementRef, { centered, themeColor });
 
   return (
-    // @ts-expect-error
-    <cropper-crosshair ref={elementRef} {...rest} />
+    <TagName
+      // @ts-expect-error
+      ref={elementRef}
+      shadow-root-mode={shadowRootMode}
+      slottable={slottable}
+      {...rest}
+    />
   );
 });
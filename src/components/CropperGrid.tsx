@@ -3,22 +3,37 @@ import {
   type DetailedHTMLProps,
   forwardRef,
   type HTMLAttributes,
-  useEffect,
   useImperativeHandle,
   useRef,
 } from 'react';
+import { useCropperTagName } from '../elements';
+import { useElementProperties } from '../hooks/useElementProperties';
+import type { CropperElementProps } from '../properties';
 
 export interface CropperGridProps
-  extends DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
+  extends CropperElementProps,
+    DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
   columns?: number;
   rows?: number;
   bordered?: boolean;
   covered?: boolean;
-  themeColor?: string;
 }
 
 export const CropperGrid = forwardRef<CropperGridElement, CropperGridProps>(
-  ({ columns, rows, bordered, covered, themeColor, ...rest }, ref) => {
+  (
+    {
+      columns,
+      rows,
+      bordered,
+      covered,
+      shadowRootMode,
+      slottable,
+      themeColor,
+      ...rest
+    },
+    ref,
+  ) => {
+    const TagName = useCropperTagName('grid');
     const elementRef = useRef<CropperGridElement>(null);
 
     useImperativeHandle(
@@ -28,20 +43,22 @@ export const CropperGrid = forwardRef<CropperGridElement, CropperGridProps>(
     );
 
     // Update props
-    useEffect(() => {
-      if (!elementRef.current) return;
-      const element = elementRef.current;
-
-      if (columns !== undefined) element.columns = columns;
-      if (rows !== undefined) element.rows = rows;
-      if (bordered !== undefined) element.bordered = bordered;
-      if (covered !== undefined) element.covered = covered;
-      if (themeColor !== undefined) element.themeColor = themeColor;
-    }, [columns, rows, bordered, covered, themeColor]);
+    useElementProperties(elementRef, {
+      columns,
+      rows,
+      bordered,
+      covered,
+      themeColor,
+    });
 
     return (
-      // @ts-expect-error
-      <cropper-grid ref={elementRef} {...rest} />
+      <TagName
+        // @ts-expect-error
+        ref={elementRef}
+        shadow-root-mode={shadowRootMode}
+        slottable={slottable}
+        {...rest}
+      />
     );
   },
 );
@@ -3,22 +3,25 @@ import {
   type DetailedHTMLProps,
   forwardRef,
   type HTMLAttributes,
-  useEffect,
   useImperativeHandle,
   useRef,
 } from 'react';
+import { useCropperTagName } from '../elements';
+import { useElementProperties } from '../hooks/useElementProperties';
+import type { CropperElementProps } from '../properties';
 
 export interface CropperHandleProps
-  extends DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
+  extends CropperElementProps,
+    DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
   action: string;
   plain?: boolean;
-  themeColor?: string;
 }
 
 export const CropperHandle = forwardRef<
   CropperHandleElement,
   CropperHandleProps
->(({ action, plain, themeColor, ...rest }, ref) => {
+>(({ action, plain, shadowRootMode, slottable, themeColor, ...rest }, ref) => {
+  const TagName = useCropperTagName('handle');
   const elementRef = useRef<CropperHandleElement>(null);
 
   useImperativeHandle(
@@ -28,17 +31,15 @@ export const CropperHandle = forwardRef<
   );
 
   // Update props
-  useEffect(() => {
-    if (!elementRef.current) return;
-    const element = elementRef.current;
-
-    if (action !== undefined) element.action = action;
-    if (plain !== undefined) element.plain = plain;
-    if (themeColor !== undefined) element.themeColor = themeColor;
-  }, [action, plain, themeColor]);
+  useElementProperties(elementRef, { action, plain, themeColor });
 
   return (
-    // @ts-expect-error
-    <cropper-handle ref={elementRef} {...rest} />
+    <TagName
+      // @ts-expect-error
+      ref={elementRef}
+      shadow-root-mode={shadowRootMode}
+      slottable={slottable}
+      {...rest}
+    />
   );
 });
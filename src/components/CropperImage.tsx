@@ -1,41 +1,146 @@
-import type { CropperImage as CropperImageElement } from 'cropperjs';
+import type {
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
 import {
   type DetailedHTMLProps,
   forwardRef,
+  type HTMLAttributeReferrerPolicy,
   type HTMLAttributes,
   useEffect,
   useImperativeHandle,
   useRef,
 } from 'react';
+import { getRelatedTagName, useCropperTagName } from '../elements';
+import type { CropperImageTransformEvent } from '../events';
+import { useElementProperties } from '../hooks/useElementProperties';
+import type { CropperElementProps } from '../properties';
+import {
+  coverRect,
+  getImageLayout,
+  getImagePolygon,
+  isRectInPolygon,
+} from '../utils/geometry';
+import {
+  type CropperImageMatrix,
+  type CropperImageTransform,
+  type CropperImageTransformParts,
+  decomposeTransform,
+  toMatrix,
+} from '../utils/transform';
+
+export type CropperImageStatus = 'idle' | 'loading' | 'ready' | 'error';
 
 export interface CropperImageProps
-  extends DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
+  extends CropperElementProps,
+    Omit<
+      DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement>,
+      'onLoad' | 'onError'
+    > {
   src?: string;
   alt?: string;
   crossOrigin?: '' | 'anonymous' | 'use-credentials';
+  srcSet?: string;
+  sizes?: string;
+  decoding?: 'async' | 'auto' | 'sync';
+  loading?: 'eager' | 'lazy';
+  fetchPriority?: 'auto' | 'high' | 'low';
+  referrerPolicy?: HTMLAttributeReferrerPolicy;
+  elementTiming?: string;
+  /** How the image is fitted when it loads, `'contain'` by default. */
+  initialCenterSize?: 'contain' | 'cover';
   rotatable?: boolean;
   scalable?: boolean;
   skewable?: boolean;
   translatable?: boolean;
+  /**
+   * Controlled transform. Changes are cancelled and reported through
+   * `onTransformChange`; the image only moves once `transform` is updated.
+   */
+  transform?: CropperImageTransform;
+  onTransformChange?: (
+    matrix: CropperImageMatrix,
+    parts: Required<CropperImageTransformParts>,
+  ) => void;
+  /**
+   * Keeps the selection filled when the image is panned, zoomed or rotated.
+   * `true` zooms and pans to close gaps; `'cancel'` cancels such transforms.
+   * Controlled `transform` values are applied as given.
+   */
+  coverSelection?: boolean | 'cancel';
+  onTransform?: (event: CropperImageTransformEvent) => void;
+  /** Called with the `<img>` when the source has loaded. */
+  onLoad?: (image: HTMLImageElement) => void;
+  /** Called once the loaded image is laid out on the canvas. */
   onReady?: (image: CropperImageElement) => void;
+  /** Called when the source fails to load. */
+  onError?: (error: Error) => void;
+  /**
+   * Called as the source loads: `'idle'` without a source, then `'loading'`
+   * and `'ready'` or `'error'`. Each new source starts over.
+   */
+  onStatusChange?: (status: CropperImageStatus) => void;
 }
 
+// Returns the visible selection the image should cover, if any
+const getCoveredSelection = (element: CropperImageElement) => {
+  const selections = Array.from(
+    element.parentElement?.querySelectorAll(
+      getRelatedTagName(element, 'selection'),
+    ) ?? [],
+  ) as CropperSelectionElement[];
+  const visible = selections.filter(
+    (selection) => !selection.hidden && selection.width && selection.height,
+  );
+
+  return visible.find((selection) => selection.active) ?? visible[0];
+};
+
 export const CropperImage = forwardRef<CropperImageElement, CropperImageProps>(
   (
     {
       src,
       alt,
       crossOrigin,
+      srcSet,
+      sizes,
+      decoding,
+      loading,
+      fetchPriority,
+      referrerPolicy,
+      elementTiming,
+      initialCenterSize,
       rotatable,
       scalable,
       skewable,
       translatable,
+      shadowRootMode,
+      slottable,
+      themeColor,
+      transform,
+      onTransformChange,
+      coverSelection,
+      onTransform,
+      onLoad,
       onReady,
+      onError,
+      onStatusChange,
       ...rest
     },
     ref,
   ) => {
+    const TagName = useCropperTagName('image');
     const elementRef = useRef<CropperImageElement>(null);
+    // Set while the wrapper itself applies the matrix through `$setTransform`
+    const applyingRef = useRef(false);
+    // Set while a corrected matrix is applied from the transform listener
+    const correctingRef = useRef(false);
+    const controlled = transform !== undefined;
+    const matrix = transform ? toMatrix(transform) : undefined;
+    const matrixKey = matrix?.join(',');
+    const statusRef = useRef<CropperImageStatus>('idle');
+    const lifecycleRef = useRef({ onLoad, onReady, onError, onStatusChange });
+    lifecycleRef.current = { onLoad, onReady, onError, onStatusChange };
 
     useImperativeHandle(
       ref,
@@ -43,37 +148,167 @@ export const CropperImage = forwardRef<CropperImageElement, CropperImageProps>(
       [],
     );
 
-    // Handle ready event
+    // Image lifecycle, restarted for each source
     useEffect(() => {
       const element = elementRef.current;
-      if (!element || !onReady) return;
+      if (!element) return;
+
+      const setStatus = (status: CropperImageStatus) => {
+        if (statusRef.current === status) return;
+        statusRef.current = status;
+        lifecycleRef.current.onStatusChange?.(status);
+      };
+
+      if (!src && !srcSet) {
+        setStatus('idle');
+        return;
+      }
 
-      setTimeout(() => {
-        onReady(element);
-      }, 0);
-    }, [onReady]);
+      // Set once a newer source or unmount makes this one stale
+      let stale = false;
+      let loaded = false;
+      const { $image } = element;
+      const handleLoad = () => {
+        if (stale || loaded) return;
+        loaded = true;
+        lifecycleRef.current.onLoad?.($image);
+      };
+
+      setStatus('loading');
+      $image.addEventListener('load', handleLoad);
+      element.$ready().then(
+        () => {
+          if (stale) return;
+          // Cached images may have loaded before the listener was added
+          handleLoad();
+          setStatus('ready');
+          lifecycleRef.current.onReady?.(element);
+        },
+        (error: Error) => {
+          if (stale) return;
+          setStatus('error');
+          lifecycleRef.current.onError?.(error);
+        },
+      );
+
+      return () => {
+        stale = true;
+        $image.removeEventListener('load', handleLoad);
+      };
+    }, [src, srcSet]);
 
     // Update props
+    useElementProperties(elementRef, {
+      src,
+      alt,
+      crossorigin: crossOrigin,
+      srcset: srcSet,
+      sizes,
+      decoding,
+      loading,
+      fetchpriority: fetchPriority,
+      referrerpolicy: referrerPolicy,
+      elementtiming: elementTiming,
+      initialCenterSize,
+      rotatable,
+      scalable,
+      skewable,
+      translatable,
+      themeColor,
+    });
+
+    // Apply the controlled transform, after the flags that gate it
+    // biome-ignore lint/correctness/useExhaustiveDependencies: compared by key
+    useEffect(() => {
+      const element = elementRef.current;
+      if (!element || !matrix) return;
+
+      applyingRef.current = true;
+      try {
+        element.$setTransform(matrix);
+      } finally {
+        applyingRef.current = false;
+      }
+    }, [matrixKey]);
+
+    // Transform listener: cover, user handler, then matrix
     useEffect(() => {
-      if (!elementRef.current) return;
       const element = elementRef.current;
+      if (
+        !element ||
+        (!controlled && !onTransformChange && !coverSelection && !onTransform)
+      )
+        return;
+
+      const handleTransform = (event: CropperImageTransformEvent) => {
+        if (applyingRef.current || event.defaultPrevented) {
+          onTransform?.(event);
+          return;
+        }
+
+        const next = toMatrix(event.detail.matrix);
+
+        // Keep the selection covered
+        let covered: CropperImageMatrix | null = null;
+        const selection = coverSelection && getCoveredSelection(element);
+        const layout = selection && getImageLayout(element);
+        if (selection && layout && !correctingRef.current) {
+          const { width, height, offset } = layout;
+          const polygon = getImagePolygon(next, width, height, offset);
+          if (!isRectInPolygon(selection, polygon)) {
+            event.preventDefault();
+            if (coverSelection !== 'cancel') {
+              covered = coverRect(next, layout, selection);
+            }
+          }
+        }
+
+        onTransform?.(event);
+
+        if (covered) {
+          correctingRef.current = true;
+          try {
+            element.$setTransform(covered);
+          } finally {
+            correctingRef.current = false;
+          }
+        }
+        if (event.defaultPrevented) return;
+
+        if (controlled) {
+          event.preventDefault();
+        }
+        onTransformChange?.(next, decomposeTransform(next));
+      };
 
-      if (src !== undefined) element.src = src;
-      if (alt !== undefined) element.alt = alt;
-      if (crossOrigin !== undefined) element.crossorigin = crossOrigin;
-      if (rotatable !== undefined) element.rotatable = rotatable;
-      if (scalable !== undefined) element.scalable = scalable;
-      if (skewable !== undefined) element.skewable = skewable;
-      if (translatable !== undefined) element.translatable = translatable;
-    }, [src, alt, crossOrigin, rotatable, scalable, skewable, translatable]);
+      element.addEventListener(
+        'transform',
+        handleTransform as unknown as EventListener,
+      );
+      return () => {
+        element.removeEventListener(
+          'transform',
+          handleTransform as unknown as EventListener,
+        );
+      };
+    }, [controlled, coverSelection, onTransformChange, onTransform]);
 
     return (
-      // @ts-expect-error
-      <cropper-image
+      <TagName
+        // @ts-expect-error
         ref={elementRef}
         src={src}
         alt={alt}
         crossorigin={crossOrigin}
+        srcset={srcSet}
+        sizes={sizes}
+        decoding={decoding}
+        loading={loading}
+        fetchpriority={fetchPriority}
+        referrerpolicy={referrerPolicy}
+        elementtiming={elementTiming}
+        shadow-root-mode={shadowRootMode}
+        slottable={slottable}
         {...rest}
       />
     );
@@ -0,0 +1,20 @@
+import type { ReactNode } from 'react';
+import { CropperPrefixContext, DEFAULT_CROPPER_PREFIX } from '../elements';
+
+export interface CropperProviderProps {
+  /**
+   * Defines and renders the elements as `<prefix>-canvas` and so on, to
+   * coexist with other copies of Cropper.js on the page.
+   */
+  prefix?: string;
+  children?: ReactNode;
+}
+
+export const CropperProvider = ({
+  prefix = DEFAULT_CROPPER_PREFIX,
+  children,
+}: CropperProviderProps) => (
+  <CropperPrefixContext.Provider value={prefix}>
+    {children}
+  </CropperPrefixContext.Provider>
+);
@@ -1,5 +1,4 @@
 import type {
-  CropperCanvas as CropperCanvasElement,
   CropperImage as CropperImageElement,
   CropperSelection as CropperSelectionElement,
 } from 'cropperjs';
@@ -9,14 +8,36 @@ import {
   type HTMLAttributes,
   useEffect,
   useImperativeHandle,
+  useLayoutEffect,
   useRef,
 } from 'react';
+import { getRelatedTagName, useCropperTagName } from '../elements';
+import type {
+  CropperActionEvent,
+  CropperSelectionChangeEvent,
+  CropperSelectionValue,
+} from '../events';
+import { useElementProperties } from '../hooks/useElementProperties';
+import { useElementShape } from '../hooks/useElementShape';
+import type { CropperElementProps } from '../properties';
+import {
+  clampRectSize,
+  clampRectToPolygon,
+  getImageLayout,
+  getImagePolygon,
+  getNaturalScale,
+  isRectInPolygon,
+  type SizeLimits,
+} from '../utils/geometry';
+import { toNaturalRect } from '../utils/natural';
+import type { CropShape } from '../utils/shape';
 
 export interface CropperSelectionProps
-  extends Omit<
-    DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement>,
-    'onChange'
-  > {
+  extends CropperElementProps,
+    Omit<
+      DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement>,
+      'onChange' | 'defaultValue'
+    > {
   aspectRatio?: number;
   initialAspectRatio?: number;
   initialCoverage?: number;
@@ -24,18 +45,135 @@ export interface CropperSelectionProps
   resizable?: boolean;
   zoomable?: boolean;
   multiple?: boolean;
+  /** Whether the selection receives pointer and keyboard input. */
+  active?: boolean;
+  /** Moves and zooms on gestures anywhere on the canvas, not only over it. */
+  dynamic?: boolean;
+  /** @deprecated Use `dynamic`. */
+  linked?: boolean;
   keyboard?: boolean;
   outlined?: boolean;
+  /**
+   * The shape of the outline, rectangular by default. Pair it with the same
+   * `shape` on `CropperShade` and the export.
+   */
+  shape?: CropShape;
   precise?: boolean;
-  bounded?: boolean;
-  themeColor?: string;
-  onAction?: (event: CustomEvent) => void;
-  onActionStart?: (event: CustomEvent) => void;
-  onActionMove?: (event: CustomEvent) => void;
-  onActionEnd?: (event: CustomEvent) => void;
-  onChange?: (event: CustomEvent) => void;
+  /**
+   * Keeps the selection inside the transformed image. `true` or `'cancel'`
+   * cancels changes that leave it; `'clamp'` shrinks or stops them at the
+   * edge instead.
+   */
+  bounded?: boolean | 'cancel' | 'clamp';
+  /** Size limits, in the unit set by `sizeUnit`. Resizes stop at them. */
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  /**
+   * `'canvas'` (default) for canvas pixels, or `'natural'` for pixels of the
+   * natural image, following its current zoom.
+   */
+  sizeUnit?: 'canvas' | 'natural';
+  /**
+   * Controlled geometry. Changes are cancelled and reported through
+   * `onValueChange`; the selection only moves once `value` is updated, so
+   * not updating it vetoes the change.
+   */
+  value?: CropperSelectionValue;
+  /** Uncontrolled initial geometry. Takes precedence over `initialCoverage`. */
+  defaultValue?: CropperSelectionValue;
+  onValueChange?: (value: CropperSelectionValue) => void;
+  /**
+   * Like `onValueChange`, in pixels of the natural image. Skipped until the
+   * image has loaded.
+   */
+  onNaturalValueChange?: (value: CropperSelectionValue) => void;
+  onAction?: (event: CropperActionEvent) => void;
+  onActionStart?: (event: CropperActionEvent) => void;
+  onActionMove?: (event: CropperActionEvent) => void;
+  onActionEnd?: (event: CropperActionEvent) => void;
+  onChange?: (event: CropperSelectionChangeEvent) => void;
 }
 
+const getImage = (element: CropperSelectionElement) =>
+  element.parentElement?.querySelector(
+    getRelatedTagName(element, 'image'),
+  ) as CropperImageElement;
+
+// Returns the transformed image's outline on the canvas, if it has a size
+const getImageBounds = (element: CropperSelectionElement) => {
+  const image = getImage(element);
+  if (!image) {
+    return null;
+  }
+
+  const layout = getImageLayout(image);
+  if (!layout) {
+    return null;
+  }
+
+  return getImagePolygon(
+    image.$getTransform(),
+    layout.width,
+    layout.height,
+    layout.offset,
+  );
+};
+
+// Converts size limits to canvas pixels, or returns `null` while natural
+// limits can't be measured
+const getCanvasLimits = (
+  element: CropperSelectionElement,
+  {
+    minWidth = 0,
+    minHeight = 0,
+    maxWidth = Infinity,
+    maxHeight = Infinity,
+  }: SizeLimits,
+  sizeUnit: 'canvas' | 'natural',
+): SizeLimits | null => {
+  let scale = { x: 1, y: 1 };
+  if (sizeUnit === 'natural') {
+    const image = getImage(element);
+    const naturalScale = image && getNaturalScale(image);
+    if (!naturalScale) {
+      return null;
+    }
+    scale = naturalScale;
+  }
+
+  // Whole-pixel selections must round within the limits
+  const roundMin = element.precise ? Number : Math.ceil;
+  const roundMax = element.precise ? Number : Math.floor;
+
+  return {
+    minWidth: roundMin(minWidth * scale.x),
+    minHeight: roundMin(minHeight * scale.y),
+    maxWidth: roundMax(maxWidth * scale.x),
+    maxHeight: roundMax(maxHeight * scale.y),
+  };
+};
+
+// Snaps values within search precision of a whole pixel
+const snap = (value: number) => {
+  const rounded = Math.round(value);
+  return Math.abs(value - rounded) < 1e-3 ? rounded : value;
+};
+
+// Rounds a rectangle to whole pixels without growing it
+const roundInward = ({ x, y, width, height }: CropperSelectionValue) => {
+  const left = Math.ceil(snap(x));
+  const top = Math.ceil(snap(y));
+
+  return {
+    x: left,
+    y: top,
+    width: Math.floor(snap(x + width)) - left,
+    height: Math.floor(snap(y + height)) - top,
+  };
+};
+
 export const CropperSelection = forwardRef<
   CropperSelectionElement,
   CropperSelectionProps
@@ -49,11 +187,26 @@ export const CropperSelection = forwardRef<
       resizable,
       zoomable,
       multiple,
+      active,
+      dynamic,
+      linked,
       keyboard,
       outlined,
+      shape,
       precise,
       bounded,
+      minWidth,
+      minHeight,
+      maxWidth,
+      maxHeight,
+      sizeUnit = 'canvas',
+      shadowRootMode,
+      slottable,
       themeColor,
+      value,
+      defaultValue,
+      onValueChange,
+      onNaturalValueChange,
       onAction,
       onActionStart,
       onActionMove,
@@ -64,7 +217,19 @@ export const CropperSelection = forwardRef<
     },
     ref,
   ) => {
+    const TagName = useCropperTagName('selection');
     const elementRef = useRef<CropperSelectionElement>(null);
+    // Set while the wrapper itself applies geometry through `$change`
+    const applyingRef = useRef(false);
+    // Set while a clamped change is applied from the change listener
+    const clampingRef = useRef(false);
+    const controlled = value !== undefined;
+    const hasInitialValue = (value ?? defaultValue) !== undefined;
+    const limited =
+      minWidth !== undefined ||
+      minHeight !== undefined ||
+      maxWidth !== undefined ||
+      maxHeight !== undefined;
 
     useImperativeHandle(
       ref,
@@ -73,36 +238,47 @@ export const CropperSelection = forwardRef<
     );
 
     // Update props
-    useEffect(() => {
-      if (!elementRef.current) return;
-      const element = elementRef.current;
-
-      if (aspectRatio !== undefined) element.aspectRatio = aspectRatio;
-      if (initialAspectRatio !== undefined)
-        element.initialAspectRatio = initialAspectRatio;
-      if (initialCoverage !== undefined)
-        element.initialCoverage = initialCoverage;
-      if (movable !== undefined) element.movable = movable;
-      if (resizable !== undefined) element.resizable = resizable;
-      if (zoomable !== undefined) element.zoomable = zoomable;
-      if (multiple !== undefined) element.multiple = multiple;
-      if (keyboard !== undefined) element.keyboard = keyboard;
-      if (outlined !== undefined) element.outlined = outlined;
-      if (precise !== undefined) element.precise = precise;
-      if (themeColor !== undefined) element.themeColor = themeColor;
-    }, [
+    useElementProperties(elementRef, {
       aspectRatio,
       initialAspectRatio,
-      initialCoverage,
+      // Only applies when the element connects without a value
+      initialCoverage: hasInitialValue ? undefined : initialCoverage,
       movable,
       resizable,
       zoomable,
-      multiple,
+      active,
+      dynamic,
+      linked,
       keyboard,
       outlined,
       precise,
       themeColor,
-    ]);
+    });
+    useElementShape(elementRef, shape, 'outline');
+
+    const applyValue = (next: CropperSelectionValue) => {
+      const element = elementRef.current;
+      if (!element) return;
+
+      applyingRef.current = true;
+      try {
+        element.$change(next.x, next.y, next.width, next.height);
+      } finally {
+        applyingRef.current = false;
+      }
+    };
+
+    // Apply the uncontrolled initial geometry
+    // biome-ignore lint/correctness/useExhaustiveDependencies: mount only
+    useLayoutEffect(() => {
+      if (!controlled && defaultValue) applyValue(defaultValue);
+    }, []);
+
+    // Apply the controlled geometry
+    // biome-ignore lint/correctness/useExhaustiveDependencies: compared by field
+    useLayoutEffect(() => {
+      if (value) applyValue(value);
+    }, [value?.x, value?.y, value?.width, value?.height]);
 
     // Event listeners
     useEffect(() => {
@@ -111,13 +287,12 @@ export const CropperSelection = forwardRef<
 
       const eventMap: Record<
         string,
-        ((event: CustomEvent) => void) | undefined
+        ((event: CropperActionEvent) => void) | undefined
       > = {
         action: onAction,
         actionstart: onActionStart,
         actionmove: onActionMove,
         actionend: onActionEnd,
-        change: onChange,
       };
 
       Object.entries(eventMap).forEach(([event, handler]) => {
@@ -136,73 +311,119 @@ export const CropperSelection = forwardRef<
           }
         });
       };
-    }, [onAction, onActionStart, onActionMove, onActionEnd, onChange]);
+    }, [onAction, onActionStart, onActionMove, onActionEnd]);
 
-    // Limit selection to image bounds
+    // Change listener: limits, user handler, then geometry
     useEffect(() => {
-      if (!bounded) {
-        return;
-      }
       const element = elementRef.current;
-      if (!element || !bounded) return;
+      if (!element) return;
 
-      const handleLimit = (event: CustomEvent) => {
-        const image = element.parentElement?.querySelector(
-          'cropper-image',
-        ) as CropperImageElement;
-        if (!image) {
+      const handleChange = (event: CropperSelectionChangeEvent) => {
+        if (applyingRef.current) {
+          onChange?.(event);
           return;
         }
 
-        const canvas = element.parentElement as CropperCanvasElement;
-        if (!canvas) {
-          return;
+        // Limit selection size
+        let clamped: CropperSelectionValue | null = null;
+        let rejected = false;
+        const limits = limited
+          ? getCanvasLimits(
+              element,
+              { minWidth, minHeight, maxWidth, maxHeight },
+              sizeUnit,
+            )
+          : null;
+        if (limits) {
+          const sized = clampRectSize(
+            element,
+            event.detail,
+            limits,
+            element.aspectRatio,
+          );
+          if (sized !== event.detail) {
+            event.preventDefault();
+            rejected = sized === null;
+            if (!clampingRef.current) clamped = sized;
+          }
         }
 
-        const canvasRect = canvas.getBoundingClientRect();
-        const imageRect = image.getBoundingClientRect();
-        const selection = event.detail;
-
-        // Calculate image boundaries relative to canvas
-        const maxSelection = {
-          x: imageRect.left - canvasRect.left,
-          y: imageRect.top - canvasRect.top,
-          width: imageRect.width,
-          height: imageRect.height,
-        };
-
-        // Check if selection is within image bounds
-        const isWithinBounds =
-          selection.x >= maxSelection.x &&
-          selection.y >= maxSelection.y &&
-          selection.x + selection.width <=
-            maxSelection.x + maxSelection.width &&
-          selection.y + selection.height <=
-            maxSelection.y + maxSelection.height;
-
-        if (!isWithinBounds) {
+        // Limit selection to image bounds, unless no size fits anyway
+        const bounds = bounded && !rejected ? getImageBounds(element) : null;
+        const target = clamped ?? event.detail;
+        if (bounds && !isRectInPolygon(target, bounds)) {
           event.preventDefault();
+          clamped =
+            bounded === 'clamp' && !clampingRef.current
+              ? clampRectToPolygon(element, target, bounds)
+              : null;
+        }
+
+        onChange?.(event);
+
+        if (clamped) {
+          const next = element.precise ? clamped : roundInward(clamped);
+          clampingRef.current = true;
+          try {
+            element.$change(next.x, next.y, next.width, next.height);
+          } finally {
+            clampingRef.current = false;
+          }
+        }
+        if (event.defaultPrevented) return;
+
+        const { x, y, width, height } = event.detail;
+        if (controlled) {
+          event.preventDefault();
+        }
+        onValueChange?.({ x, y, width, height });
+
+        if (onNaturalValueChange) {
+          const image = getImage(element);
+          const natural =
+            image && toNaturalRect(image, { x, y, width, height });
+          if (natural) onNaturalValueChange(natural);
         }
       };
 
       element.addEventListener(
         'change',
-        handleLimit as unknown as EventListener,
+        handleChange as unknown as EventListener,
       );
       return () => {
         element.removeEventListener(
           'change',
-          handleLimit as unknown as EventListener,
+          handleChange as unknown as EventListener,
         );
       };
-    }, [bounded]);
+    }, [
+      bounded,
+      limited,
+      minWidth,
+      minHeight,
+      maxWidth,
+      maxHeight,
+      sizeUnit,
+      controlled,
+      onChange,
+      onValueChange,
+      onNaturalValueChange,
+    ]);
 
     return (
+      // `multiple` is set on creation, as Cropper.js removes the other
+      // selections when one connects without it
       // @ts-expect-error
-      <cropper-selection ref={elementRef} {...rest}>
+      <TagName
+        ref={elementRef}
+        multiple={multiple}
+        shadow-root-mode={shadowRootMode}
+        slottable={slottable}
+        {...rest}
+      >
         {children}
         {/* @ts-ignore */}
-      </cropper-selection>
+      </TagName>
     );
   },
 );
@@ -0,0 +1,268 @@
+import type { CropperSelection as CropperSelectionElement } from 'cropperjs';
+import { type ReactNode, useEffect, useId, useRef } from 'react';
+import type {
+  CropperSelectionChangeEvent,
+  CropperSelectionValue,
+} from '../events';
+import {
+  CropperSelection,
+  type CropperSelectionProps,
+} from './CropperSelection';
+
+export interface CropperSelectionItem extends CropperSelectionValue {
+  id: string;
+  /** Overrides `selectionProps.aspectRatio` for this selection. */
+  aspectRatio?: number;
+}
+
+export interface CropperSelectionsProps {
+  selections: CropperSelectionItem[];
+  onSelectionsChange?: (selections: CropperSelectionItem[]) => void;
+  /** The selection that receives pointer and keyboard input. */
+  activeId?: string | null;
+  onActiveIdChange?: (id: string | null) => void;
+  /** Called when the user draws a new selection, before `onSelectionsChange`. */
+  onAdd?: (selection: CropperSelectionItem) => void;
+  /** Called when the user removes a selection, before `onSelectionsChange`. */
+  onRemove?: (selection: CropperSelectionItem) => void;
+  /** Creates ids for drawn selections. */
+  createId?: () => string;
+  /** Props shared by every selection. */
+  selectionProps?: Omit<
+    CropperSelectionProps,
+    | 'ref'
+    | 'value'
+    | 'defaultValue'
+    | 'onValueChange'
+    | 'multiple'
+    | 'hidden'
+    | 'children'
+  >;
+  /** Content rendered inside each selection, such as handles. */
+  children?: ReactNode | ((selection: CropperSelectionItem) => ReactNode);
+}
+
+/**
+ * Renders a list of selections on a `CropperCanvas`. Selections drawn or
+ * removed by the user are reported instead of being added to the DOM behind
+ * React's back, so the list stays the single source of truth.
+ */
+export const CropperSelections = ({
+  selections,
+  onSelectionsChange,
+  activeId = null,
+  onActiveIdChange,
+  onAdd,
+  onRemove,
+  createId,
+  selectionProps,
+  children,
+}: CropperSelectionsProps) => {
+  const prefix = useId();
+  const countRef = useRef(0);
+  // A hidden selection that turns drawing on an empty canvas into new items
+  const draftRef = useRef<CropperSelectionElement>(null);
+  const elementsRef = useRef(new Map<string, CropperSelectionElement>());
+  const latestRef = useRef({
+    selections,
+    activeId,
+    onSelectionsChange,
+    onActiveIdChange,
+    onAdd,
+    onRemove,
+    createId,
+  });
+  latestRef.current = {
+    selections,
+    activeId,
+    onSelectionsChange,
+    onActiveIdChange,
+    onAdd,
+    onRemove,
+    createId,
+  };
+
+  // Mirrors `activeId` onto the elements, since Cropper.js also toggles them
+  const syncActive = () => {
+    const { activeId: currentId } = latestRef.current;
+    let hasActive = false;
+    elementsRef.current.forEach((element, id) => {
+      element.active = id === currentId;
+      hasActive ||= element.active;
+    });
+    const draft = draftRef.current;
+    if (draft) {
+      draft.active = !hasActive;
+      // Changes un-hide selections
+      draft.hidden = true;
+    }
+  };
+
+  // Runs after the selections' own `multiple` handling, which activates them
+  useEffect(() => {
+    syncActive();
+    queueMicrotask(syncActive);
+  });
+
+  // Canvas listeners: drawn selections, activation and removal
+  useEffect(() => {
+    const draft = draftRef.current;
+    const parent = draft?.parentElement;
+    if (!draft || !parent) return;
+
+    const add = (value: CropperSelectionValue) => {
+      const latest = latestRef.current;
+      countRef.current += 1;
+      const item: CropperSelectionItem = {
+        id: latest.createId?.() ?? `${prefix}${countRef.current}`,
+        x: value.x,
+        y: value.y,
+        width: value.width,
+        height: value.height,
+      };
+      latest.onAdd?.(item);
+      latest.onSelectionsChange?.([...latest.selections, item]);
+      latest.onActiveIdChange?.(item.id);
+    };
+
+    const handleChange = (event: CropperSelectionChangeEvent) => {
+      const target = event.target as CropperSelectionElement;
+      if (
+        target.localName !== draft.localName ||
+        Array.from(elementsRef.current.values()).includes(target)
+      ) {
+        return;
+      }
+
+      // Cropper.js drew on the draft or cloned a selection to draw
+      event.preventDefault();
+      if (target === draft) {
+        draft.hidden = true;
+      } else {
+        target.remove();
+      }
+      if (event.detail.width > 0 && event.detail.height > 0) {
+        add(event.detail);
+      }
+    };
+
+    const handleActionStart = () => {
+      // Selections activate themselves when clicked
+      const { activeId: currentId, onActiveIdChange: onActivate } =
+        latestRef.current;
+      elementsRef.current.forEach((element, id) => {
+        if (element.active && id !== currentId) onActivate?.(id);
+      });
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const latest = latestRef.current;
+      const element =
+        latest.activeId !== null
+          ? elementsRef.current.get(latest.activeId)
+          : undefined;
+      const removes =
+        event.key === 'Delete' || (event.key === 'Backspace' && event.metaKey);
+      if (!removes || !element?.keyboard || event.defaultPrevented) {
+        return;
+      }
+
+      // Cropper.js ignores keys while the user is typing
+      const { activeElement } = parent.ownerDocument;
+      if (
+        activeElement &&
+        (['INPUT', 'TEXTAREA'].includes(activeElement.tagName) ||
+          ['true', 'plaintext-only'].includes(
+            (activeElement as HTMLElement).contentEditable,
+          ))
+      ) {
+        return;
+      }
+
+      // Cropper.js would remove the element itself
+      event.preventDefault();
+      const item = latest.selections.find(({ id }) => id === latest.activeId);
+      if (!item) return;
+
+      const remaining = latest.selections.filter(
+        (selection) => selection !== item,
+      );
+      latest.onRemove?.(item);
+      latest.onSelectionsChange?.(remaining);
+      latest.onActiveIdChange?.(remaining[remaining.length - 1]?.id ?? null);
+    };
+
+    parent.addEventListener(
+      'change',
+      handleChange as unknown as EventListener,
+      true,
+    );
+    parent.addEventListener('actionstart', handleActionStart);
+    const { ownerDocument } = parent;
+    ownerDocument.addEventListener('keydown', handleKeyDown, true);
+
+    return () => {
+      parent.removeEventListener(
+        'change',
+        handleChange as unknown as EventListener,
+        true,
+      );
+      parent.removeEventListener('actionstart', handleActionStart);
+      ownerDocument.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [prefix]);
+
+  const handleValueChange = (id: string, value: CropperSelectionValue) => {
+    const latest = latestRef.current;
+    const item = latest.selections.find((selection) => selection.id === id);
+    if (
+      !item ||
+      (item.x === value.x &&
+        item.y === value.y &&
+        item.width === value.width &&
+        item.height === value.height)
+    ) {
+      return;
+    }
+
+    latest.onSelectionsChange?.(
+      latest.selections.map((selection) =>
+        selection === item ? { ...selection, ...value } : selection,
+      ),
+    );
+  };
+
+  return (
+    <>
+      <CropperSelection
+        ref={draftRef}
+        hidden
+        multiple
+        aspectRatio={selectionProps?.aspectRatio}
+      />
+      {selections.map((item) => {
+        const { id, aspectRatio, x, y, width, height } = item;
+
+        return (
+          <CropperSelection
+            key={id}
+            ref={(element) => {
+              if (element) {
+                elementsRef.current.set(id, element);
+              } else {
+                elementsRef.current.delete(id);
+              }
+            }}
+            {...selectionProps}
+            aspectRatio={aspectRatio ?? selectionProps?.aspectRatio}
+            multiple
+            value={{ x, y, width, height }}
+            onValueChange={(value) => handleValueChange(id, value)}
+          >
+            {typeof children === 'function' ? children(item) : children}
+          </CropperSelection>
+        );
+      })}
+    </>
+  );
+};
@@ -3,18 +3,43 @@ import {
   type DetailedHTMLProps,
   forwardRef,
   type HTMLAttributes,
-  useEffect,
   useImperativeHandle,
   useRef,
 } from 'react';
+import { useCropperTagName } from '../elements';
+import { useElementProperties } from '../hooks/useElementProperties';
+import { useElementShape } from '../hooks/useElementShape';
+import type { CropperElementProps } from '../properties';
+import type { CropShape } from '../utils/shape';
 
 export interface CropperShadeProps
-  extends DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
-  themeColor?: string;
+  extends CropperElementProps,
+    DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
+  /** The shade follows the selection; these set its cut-out directly. */
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  /** The shape of the cut-out, rectangular by default. */
+  shape?: CropShape;
 }
 
 export const CropperShade = forwardRef<CropperShadeElement, CropperShadeProps>(
-  ({ themeColor, ...rest }, ref) => {
+  (
+    {
+      x,
+      y,
+      width,
+      height,
+      shape,
+      shadowRootMode,
+      slottable,
+      themeColor,
+      ...rest
+    },
+    ref,
+  ) => {
+    const TagName = useCropperTagName('shade');
     const elementRef = useRef<CropperShadeElement>(null);
 
     useImperativeHandle(
@@ -24,16 +49,17 @@ export const CropperShade = forwardRef<CropperShadeElement, CropperShadeProps>(
     );
 
     // Update props
-    useEffect(() => {
-      if (!elementRef.current) return;
-      const element = elementRef.current;
-
-      if (themeColor !== undefined) element.themeColor = themeColor;
-    }, [themeColor]);
+    useElementProperties(elementRef, { x, y, width, height, themeColor });
+    useElementShape(elementRef, shape, 'cutout');
 
     return (
-      // @ts-expect-error
-      <cropper-shade ref={elementRef} {...rest} />
+      <TagName
+        // @ts-expect-error
+        ref={elementRef}
+        shadow-root-mode={shadowRootMode}
+        slottable={slottable}
+        {...rest}
+      />
     );
   },
 );
@@ -0,0 +1,144 @@
+import type {
+  CropperSelection as CropperSelectionElement,
+  CropperViewer as CropperViewerElement,
+} from 'cropperjs';
+import {
+  type CSSProperties,
+  type DetailedHTMLProps,
+  forwardRef,
+  type HTMLAttributes,
+  type RefObject,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from 'react';
+import { useCropperElementsDefined, useCropperTagName } from '../elements';
+import { useElementProperties } from '../hooks/useElementProperties';
+import type { CropperElementProps } from '../properties';
+
+export type CropperViewerResize = 'both' | 'horizontal' | 'vertical' | 'none';
+
+export interface CropperViewerProps
+  extends CropperElementProps,
+    DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> {
+  /**
+   * The selection to preview, either as a CSS selector or as a ref to a
+   * `CropperSelection`. Defaults to the closest ancestor selection.
+   */
+  selection?: string | RefObject<CropperSelectionElement | null>;
+  resize?: CropperViewerResize;
+  width?: number | string;
+  height?: number | string;
+}
+
+const TARGET_ATTRIBUTE = 'data-cropper-viewer-target';
+
+let targetCount = 0;
+const targetIds = new WeakMap<CropperSelectionElement, string>();
+
+// Tags a selection element so viewers can find it with a selector
+const getTargetSelector = (element: CropperSelectionElement) => {
+  let id = targetIds.get(element);
+  if (!id) {
+    targetCount += 1;
+    id = `viewer-target-${targetCount}`;
+    targetIds.set(element, id);
+  }
+  if (element.getAttribute(TARGET_ATTRIBUTE) !== id) {
+    element.setAttribute(TARGET_ATTRIBUTE, id);
+  }
+  return `[${TARGET_ATTRIBUTE}="${id}"]`;
+};
+
+const getSizeStyle = ({
+  style,
+  width,
+  height,
+}: Pick<CropperViewerProps, 'style' | 'width' | 'height'>) => {
+  const sizeStyle: CSSProperties = { ...style };
+  if (width !== undefined) sizeStyle.width = width;
+  if (height !== undefined) sizeStyle.height = height;
+  return sizeStyle;
+};
+
+const CropperViewerContent = forwardRef<
+  CropperViewerElement,
+  CropperViewerProps
+>(
+  (
+    {
+      selection,
+      resize,
+      width,
+      height,
+      style,
+      shadowRootMode,
+      slottable,
+      themeColor,
+      ...rest
+    },
+    ref,
+  ) => {
+    const TagName = useCropperTagName('viewer');
+    const elementRef = useRef<CropperViewerElement>(null);
+    const [refSelector, setRefSelector] = useState<string>();
+
+    const selector = typeof selection === 'string' ? selection : refSelector;
+
+    // biome-ignore lint/correctness/useExhaustiveDependencies: remounts by selector
+    useImperativeHandle(ref, () => elementRef.current as CropperViewerElement, [
+      selector,
+    ]);
+
+    // Resolve ref targets once they are attached
+    useEffect(() => {
+      if (typeof selection === 'string' || !selection) {
+        setRefSelector(undefined);
+        return;
+      }
+      const target = selection.current;
+      setRefSelector(target ? getTargetSelector(target) : undefined);
+    });
+
+    // Update props
+    useElementProperties(elementRef, { resize, themeColor });
+
+    // The element binds its selection on connect, so remount when it changes
+    return (
+      <TagName
+        key={selector ?? ''}
+        // @ts-expect-error
+        ref={elementRef}
+        selection={selector}
+        resize={resize}
+        shadow-root-mode={shadowRootMode}
+        slottable={slottable}
+        style={getSizeStyle({ style, width, height })}
+        {...rest}
+      />
+    );
+  },
+);
+
+/**
+ * Renders a bare placeholder tag on the server and until the Cropper.js
+ * elements are defined, so the forwarded ref gets the upgraded element.
+ */
+export const CropperViewer = forwardRef<
+  CropperViewerElement,
+  CropperViewerProps
+>((props, ref) => {
+  const TagName = useCropperTagName('viewer');
+  const defined = useCropperElementsDefined();
+
+  if (!defined) {
+    const { id, className } = props;
+    return (
+      // @ts-expect-error
+      <TagName id={id} className={className} style={getSizeStyle(props)} />
+    );
+  }
+
+  return <CropperViewerContent ref={ref} {...props} />;
+});
@@ -0,0 +1,171 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useSyncExternalStore,
+} from 'react';
+
+export type CropperElementName =
+  | 'canvas'
+  | 'crosshair'
+  | 'grid'
+  | 'handle'
+  | 'image'
+  | 'selection'
+  | 'shade'
+  | 'viewer';
+
+export const DEFAULT_CROPPER_PREFIX = 'cropper';
+
+export const getCropperTagName = (
+  name: CropperElementName,
+  prefix = DEFAULT_CROPPER_PREFIX,
+) => `${prefix}-${name}`;
+
+/**
+ * Returns the tag name of another Cropper.js element with the same prefix as
+ * `element`, e.g. the image tag that goes with a canvas.
+ */
+export const getRelatedTagName = (element: Element, name: CropperElementName) =>
+  element.localName.replace(/[^-]+$/, name);
+
+export const CropperPrefixContext = createContext(DEFAULT_CROPPER_PREFIX);
+
+export const useCropperTagName = (name: CropperElementName) =>
+  getCropperTagName(name, useContext(CropperPrefixContext));
+
+interface CropperElementClass {
+  new (): HTMLElement;
+  $define(name: string): void;
+}
+
+// The characters a custom element name allows after its leading letter
+const PREFIX_PATTERN =
+  /^[a-z][-.\d_a-z\u00B7\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u037D\u037F-\u1FFF\u200C-\u200D\u203F\u2040\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\u{10000}-\u{EFFFF}]*$/u;
+
+const getPrefixError = (prefix: string) =>
+  PREFIX_PATTERN.test(prefix)
+    ? null
+    : new Error(
+        `Invalid Cropper.js element prefix "${prefix}": it must start with a lowercase letter and make valid custom element names`,
+      );
+
+const definitions = new Map<string, Promise<void>>();
+const definedPrefixes = new Set<string>();
+const listeners = new Set<() => void>();
+
+const isDefined = (prefix: string) =>
+  definedPrefixes.has(prefix) ||
+  (typeof customElements !== 'undefined' &&
+    customElements.get(getCropperTagName('canvas', prefix)) !== undefined);
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const definePrefixedElements = (
+  elements: typeof import('@cropper/elements'),
+  prefix: string,
+) => {
+  const classes: Record<CropperElementName, CropperElementClass> = {
+    canvas: elements.CropperCanvas,
+    crosshair: elements.CropperCrosshair,
+    grid: elements.CropperGrid,
+    handle: elements.CropperHandle,
+    image: elements.CropperImage,
+    selection: elements.CropperSelection,
+    shade: elements.CropperShade,
+    viewer: elements.CropperViewer,
+  };
+  Object.entries(classes).forEach(([name, ElementClass]) => {
+    const tagName = getCropperTagName(name as CropperElementName, prefix);
+
+    // A constructor can only be defined once, so define a subclass
+    class PrefixedElement extends ElementClass {
+      static $name = tagName;
+
+      // Resolve sibling elements under the same prefix
+      $getTagNameOf(otherName: string) {
+        return otherName.replace(
+          new RegExp(`^${DEFAULT_CROPPER_PREFIX}-`),
+          `${prefix}-`,
+        );
+      }
+    }
+    PrefixedElement.$define(tagName);
+  });
+};
+
+export interface DefineCropperElementsOptions {
+  /** Defines the elements as `<prefix>-canvas` and so on. */
+  prefix?: string;
+}
+
+/**
+ * Loads Cropper.js and defines its custom elements. Components do this on
+ * first mount; call it early, e.g. in a client entry, to skip the wait.
+ * Resolves once the elements are defined.
+ */
+export const defineCropperElements = ({
+  prefix = DEFAULT_CROPPER_PREFIX,
+}: DefineCropperElementsOptions = {}) => {
+  let definition = definitions.get(prefix);
+  if (!definition) {
+    const error = getPrefixError(prefix);
+    if (error) return Promise.reject(error);
+
+    definition = (
+      prefix === DEFAULT_CROPPER_PREFIX
+        ? // Importing Cropper.js defines the default names
+          import('cropperjs').then(() => {})
+        : // The bare classes, so the default names stay free for other copies
+          import('@cropper/elements').then((elements) => {
+            definePrefixedElements(elements, prefix);
+          })
+    ).then(
+      () => {
+        definedPrefixes.add(prefix);
+        listeners.forEach((listener) => {
+          listener();
+        });
+      },
+      (error) => {
+        // Allow another attempt
+        definitions.delete(prefix);
+        throw error;
+      },
+    );
+    definitions.set(prefix, definition);
+  }
+  return definition;
+};
+
+/**
+ * Whether the Cropper.js elements are defined under the current prefix.
+ * Always `false` on the server and while hydrating; defines the elements on
+ * first mount otherwise.
+ */
+export const useCropperElementsDefined = () => {
+  const prefix = useContext(CropperPrefixContext);
+  // Thrown while rendering, since the elements could never be defined
+  const error = getPrefixError(prefix);
+  if (error) throw error;
+  const value = useSyncExternalStore(
+    subscribe,
+    () => isDefined(prefix),
+    () => false,
+  );
+
+  useEffect(() => {
+    if (value) return;
+
+    defineCropperElements({ prefix }).catch(() => {
+      // Placeholders stay until a later mount succeeds
+    });
+  }, [prefix, value]);
+
+  return value;
+};
@@ -0,0 +1,59 @@
+import type { CropperImageMatrix } from './utils/transform';
+
+export type CropperAction =
+  | 'none'
+  | 'select'
+  | 'move'
+  | 'scale'
+  | 'rotate'
+  | 'transform'
+  | 'n-resize'
+  | 'e-resize'
+  | 's-resize'
+  | 'w-resize'
+  | 'ne-resize'
+  | 'nw-resize'
+  | 'se-resize'
+  | 'sw-resize'
+  | (string & {});
+
+export interface CropperActionEventDetail {
+  action: CropperAction;
+  /** The pointer, touch or wheel event that triggered the action. */
+  relatedEvent: Event;
+  /**
+   * Pointer page coordinates since the previous `action` event. The delta is
+   * `endX - startX`. Only set on `action` events for single-pointer actions.
+   */
+  startX?: number;
+  startY?: number;
+  endX?: number;
+  endY?: number;
+  /** Rotation in radians, for `rotate` and `transform` actions. */
+  rotate?: number;
+  /** Scale rate, for `scale` and `transform` actions. */
+  scale?: number;
+  /** Page coordinates of the gesture origin, for multi-pointer actions. */
+  centerX?: number;
+  centerY?: number;
+}
+
+export interface CropperSelectionValue {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropperImageTransformEventDetail {
+  matrix: CropperImageMatrix;
+  oldMatrix: CropperImageMatrix;
+}
+
+/** Fired as `actionstart`, `actionmove`, `action` and `actionend`. */
+export type CropperActionEvent = CustomEvent<CropperActionEventDetail>;
+
+export type CropperSelectionChangeEvent = CustomEvent<CropperSelectionValue>;
+
+export type CropperImageTransformEvent =
+  CustomEvent<CropperImageTransformEventDetail>;
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import {
+  type CropExporter,
+  type CropExporterOptions,
+  createCropExporter,
+} from '../utils/exporter';
+
+/**
+ * Creates a `createCropExporter` exporter for the component's lifetime,
+ * stopping its worker on unmount. Options are read once.
+ */
+export const useCropExporter = (
+  options?: CropExporterOptions,
+): CropExporter => {
+  const [exporter] = useState(() => createCropExporter(options));
+
+  // The worker restarts on the next export, e.g. after a Strict Mode remount
+  useEffect(() => () => exporter.terminate(), [exporter]);
+
+  return exporter;
+};
@@ -0,0 +1,183 @@
+import { act, render } from '@testing-library/react';
+import {
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CropperCanvas } from '../components/CropperCanvas';
+import { CropperImage } from '../components/CropperImage';
+import { CropperSelection } from '../components/CropperSelection';
+import {
+  type UseCropperOptions,
+  type UseCropperResult,
+  useCropper,
+} from './useCropper';
+
+const renderCropper = (options?: UseCropperOptions) => {
+  const result: { current?: UseCropperResult } = {};
+  const Harness = ({ src }: { src?: string }) => {
+    const cropper = useCropper(options);
+    result.current = cropper;
+    return (
+      <CropperCanvas ref={cropper.canvasRef}>
+        <CropperImage ref={cropper.imageRef} src={src} rotatable scalable />
+        <CropperSelection ref={cropper.selectionRef} />
+      </CropperCanvas>
+    );
+  };
+  const utils = render(<Harness />);
+  const setSource = (src: string) => utils.rerender(<Harness src={src} />);
+  return { ...utils, result, setSource };
+};
+
+describe('useCropper', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('queues calls until the image is ready', async () => {
+    let loadImage = () => {};
+    vi.spyOn(CropperImageElement.prototype, '$ready').mockReturnValue(
+      new Promise((resolve) => {
+        loadImage = () => resolve(new Image());
+      }),
+    );
+    const { container, result } = renderCropper();
+    const selection = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+
+    result.current?.setSelection({ x: 1, y: 2, width: 30, height: 40 });
+    expect(result.current?.ready).toBe(false);
+    expect(selection.width).toBe(0);
+
+    await act(async () => {
+      loadImage();
+    });
+    expect(result.current?.ready).toBe(true);
+    expect(selection.width).toBe(30);
+    expect(selection.height).toBe(40);
+  });
+
+  it('runs the queue past failing calls', async () => {
+    let loadImage = () => {};
+    vi.spyOn(CropperImageElement.prototype, '$ready').mockReturnValue(
+      new Promise((resolve) => {
+        loadImage = () => resolve(new Image());
+      }),
+    );
+    vi.spyOn(CropperSelectionElement.prototype, '$toCanvas').mockImplementation(
+      () => {
+        throw new Error('Failed to render');
+      },
+    );
+    const { container, result } = renderCropper();
+    const selection = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+
+    expect(() =>
+      result.current?.applyCropState({ version: 2 } as never),
+    ).toThrow('`version`');
+    const canvas = expect(result.current?.getCroppedCanvas()).rejects.toThrow(
+      'Failed to render',
+    );
+    result.current?.setSelection({ x: 1, y: 2, width: 30, height: 40 });
+    const state = result.current?.getCropState();
+
+    await act(async () => {
+      loadImage();
+    });
+    await canvas;
+    await expect(state).resolves.not.toBeUndefined();
+    expect(selection.width).toBe(30);
+  });
+
+  it('queues calls while a new source loads', async () => {
+    const loads: (() => void)[] = [];
+    vi.spyOn(CropperImageElement.prototype, '$ready').mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          loads.push(() => resolve(new Image()));
+        }),
+    );
+    const { container, result, setSource } = renderCropper();
+    const selection = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+    await act(async () => {
+      for (const load of loads) load();
+    });
+    expect(result.current?.ready).toBe(true);
+
+    loads.length = 0;
+    setSource('next.png');
+    await act(async () => {});
+    expect(result.current?.ready).toBe(false);
+
+    result.current?.setSelection({ x: 1, y: 2, width: 30, height: 40 });
+    expect(selection.width).toBe(0);
+    await act(async () => {
+      for (const load of loads) load();
+    });
+    expect(result.current?.ready).toBe(true);
+    expect(selection.width).toBe(30);
+  });
+
+  it('reports calls that fail once ready', async () => {
+    let loadImage = () => {};
+    vi.spyOn(CropperImageElement.prototype, '$ready').mockReturnValue(
+      new Promise((resolve) => {
+        loadImage = () => resolve(new Image());
+      }),
+    );
+    const error = new Error('Failed to rotate');
+    vi.spyOn(CropperImageElement.prototype, '$rotate').mockImplementation(
+      () => {
+        throw error;
+      },
+    );
+    const handleError = vi.fn();
+    const { container, result } = renderCropper({ onError: handleError });
+    const selection = container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement;
+
+    result.current?.rotate(90);
+    result.current?.setSelection({ x: 1, y: 2, width: 30, height: 40 });
+    await act(async () => {
+      loadImage();
+    });
+    expect(handleError).toHaveBeenCalledWith(error);
+    expect(selection.width).toBe(30);
+
+    result.current?.rotate(90);
+    expect(handleError).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects pending calls when the elements unmount', async () => {
+    vi.spyOn(CropperImageElement.prototype, '$ready').mockReturnValue(
+      new Promise(() => {}),
+    );
+    const { result, unmount } = renderCropper();
+    const state = result.current?.getCropState();
+
+    unmount();
+    await expect(state).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('flips the image once ready', async () => {
+    vi.spyOn(CropperImageElement.prototype, '$ready').mockResolvedValue(
+      new Image(),
+    );
+    const { container, result } = renderCropper();
+    const image = container.querySelector(
+      'cropper-image',
+    ) as CropperImageElement;
+    // Wait for useEffect to run
+    await act(async () => {});
+
+    result.current?.flip('x');
+    expect(image.$getTransform()).toEqual([-1, 0, 0, 1, 0, 0]);
+  });
+});
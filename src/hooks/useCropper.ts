@@ -0,0 +1,268 @@
+import type {
+  CropperCanvas as CropperCanvasElement,
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
+import {
+  type RefCallback,
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type { CropperSelectionValue } from '../events';
+import {
+  applyCropState,
+  type CropState,
+  getCropState,
+  parseCropState,
+} from '../utils/state';
+
+export interface CropperCanvasOptions {
+  width?: number;
+  height?: number;
+  beforeDraw?: (
+    context: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+  ) => void;
+}
+
+export interface UseCropperOptions {
+  /**
+   * Receives errors from calls that don't return a promise, such as `rotate`.
+   * Defaults to `reportError`, which logs them like uncaught errors.
+   */
+  onError?: (error: unknown) => void;
+}
+
+export interface UseCropperResult {
+  canvasRef: RefCallback<CropperCanvasElement>;
+  imageRef: RefCallback<CropperImageElement>;
+  selectionRef: RefCallback<CropperSelectionElement>;
+  /**
+   * Whether all elements are mounted and the image's current source has
+   * loaded. Turns `false` again while a new source loads.
+   */
+  ready: boolean;
+  /** Rotates the image by an angle in degrees. */
+  rotate: (degrees: number) => void;
+  flip: (axis: 'x' | 'y') => void;
+  /** Zooms the image. Positive ratios zoom in, negative ones zoom out. */
+  zoom: (ratio: number) => void;
+  /** Re-centers the image and restores the initial selection. */
+  reset: () => void;
+  setSelection: (rect: CropperSelectionValue) => void;
+  getCroppedCanvas: (
+    options?: CropperCanvasOptions,
+  ) => Promise<HTMLCanvasElement>;
+  /**
+   * Resolves to the current crop state, or `null` if it can't be measured.
+   * Like `getCroppedCanvas`, rejects if the elements unmount first.
+   */
+  getCropState: () => Promise<CropState | null>;
+  /** Throws right away if `state` is invalid, even before the elements are ready. */
+  applyCropState: (state: CropState) => void;
+}
+
+interface CropperElements {
+  canvas: CropperCanvasElement;
+  image: CropperImageElement;
+  selection: CropperSelectionElement;
+}
+
+interface CropperTask {
+  run: (elements: CropperElements) => void;
+  /** Rejects the promise of a call that returns one. */
+  reject?: (reason: unknown) => void;
+}
+
+/**
+ * Binds `CropperCanvas`, `CropperImage` and `CropperSelection` and exposes a
+ * single imperative API over them. Calls made before the elements are ready
+ * are queued and run once they are.
+ */
+export const useCropper = ({
+  onError,
+}: UseCropperOptions = {}): UseCropperResult => {
+  const elementsRef = useRef<{
+    [K in keyof CropperElements]: CropperElements[K] | null;
+  }>({
+    canvas: null,
+    image: null,
+    selection: null,
+  });
+  const queueRef = useRef<CropperTask[]>([]);
+  const readyRef = useRef(false);
+  // Counts image loads, so a replaced source can't mark the new one ready
+  const loadIdRef = useRef(0);
+  const sourceObserverRef = useRef<MutationObserver | null>(null);
+  const [ready, setReady] = useState(false);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const flush = useCallback(() => {
+    const { canvas, image, selection } = elementsRef.current;
+    if (!readyRef.current || !canvas || !image || !selection) return;
+
+    const tasks = queueRef.current;
+    queueRef.current = [];
+    // A failing call must not drop the ones queued after it
+    tasks.forEach(({ run, reject }) => {
+      try {
+        run({ canvas, image, selection });
+      } catch (error) {
+        if (reject) {
+          reject(error);
+        } else if (onErrorRef.current) {
+          onErrorRef.current(error);
+        } else if (typeof reportError === 'function') {
+          reportError(error);
+        }
+      }
+    });
+  }, []);
+
+  const rejectPending = useCallback(() => {
+    const error = new DOMException(
+      'The cropper elements were unmounted',
+      'AbortError',
+    );
+    queueRef.current = queueRef.current.filter(({ reject }) => {
+      reject?.(error);
+      return !reject;
+    });
+  }, []);
+
+  const updateReady = useCallback(
+    (value: boolean) => {
+      readyRef.current = value;
+      setReady(value);
+      flush();
+    },
+    [flush],
+  );
+
+  const run = useCallback(
+    (task: CropperTask['run'], reject?: CropperTask['reject']) => {
+      queueRef.current.push({ run: task, reject });
+      flush();
+    },
+    [flush],
+  );
+
+  const canvasRef = useCallback<RefCallback<CropperCanvasElement>>(
+    (element) => {
+      elementsRef.current.canvas = element;
+      if (element) {
+        flush();
+      } else {
+        rejectPending();
+      }
+    },
+    [flush, rejectPending],
+  );
+
+  const imageRef = useCallback<RefCallback<CropperImageElement>>(
+    (element) => {
+      sourceObserverRef.current?.disconnect();
+      sourceObserverRef.current = null;
+      elementsRef.current.image = element;
+      loadIdRef.current += 1;
+      updateReady(false);
+      if (!element) return;
+
+      const load = () => {
+        const loadId = loadIdRef.current;
+        element.$ready().then(
+          () => {
+            if (loadIdRef.current === loadId) updateReady(true);
+          },
+          () => {
+            // Stays not ready until a new source or element is attached
+          },
+        );
+      };
+
+      // Cropper.js reflects a new source to the attributes of the same element
+      const observer = new MutationObserver(() => {
+        loadIdRef.current += 1;
+        updateReady(false);
+        load();
+      });
+      observer.observe(element, {
+        attributes: true,
+        attributeFilter: ['src', 'srcset'],
+      });
+      sourceObserverRef.current = observer;
+      load();
+    },
+    [updateReady],
+  );
+
+  const selectionRef = useCallback<RefCallback<CropperSelectionElement>>(
+    (element) => {
+      elementsRef.current.selection = element;
+      flush();
+    },
+    [flush],
+  );
+
+  return useMemo(
+    () => ({
+      canvasRef,
+      imageRef,
+      selectionRef,
+      ready,
+      rotate: (degrees) => {
+        run(({ image }) => {
+          image.$rotate(`${degrees}deg`);
+        });
+      },
+      flip: (axis) => {
+        run(({ image }) => {
+          if (axis === 'x') {
+            image.$scale(-1, 1);
+          } else {
+            image.$scale(1, -1);
+          }
+        });
+      },
+      zoom: (ratio) => {
+        run(({ image }) => {
+          image.$zoom(ratio);
+        });
+      },
+      reset: () => {
+        run(({ image, selection }) => {
+          image.$resetTransform();
+          image.$center(image.initialCenterSize);
+          selection.$reset();
+        });
+      },
+      setSelection: ({ x, y, width, height }) => {
+        run(({ selection }) => {
+          selection.$change(x, y, width, height);
+        });
+      },
+      getCroppedCanvas: (options) =>
+        new Promise<HTMLCanvasElement>((resolve, reject) => {
+          run(({ selection }) => {
+            selection.$toCanvas(options).then(resolve, reject);
+          }, reject);
+        }),
+      getCropState: () =>
+        new Promise<CropState | null>((resolve, reject) => {
+          run(({ canvas }) => {
+            resolve(getCropState(canvas));
+          }, reject);
+        }),
+      applyCropState: (state) => {
+        const parsed = parseCropState(state);
+        run(({ canvas }) => {
+          applyCropState(canvas, parsed);
+        });
+      },
+    }),
+    [canvasRef, imageRef, selectionRef, ready, run],
+  );
+};
@@ -0,0 +1,107 @@
+import { act, fireEvent, render } from '@testing-library/react';
+import type {
+  CropperCanvas as CropperCanvasElement,
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CropperCanvas } from '../components/CropperCanvas';
+import { CropperImage } from '../components/CropperImage';
+import { CropperSelection } from '../components/CropperSelection';
+import {
+  type UseCropperHistoryResult,
+  useCropperHistory,
+} from './useCropperHistory';
+
+const renderHistory = () => {
+  const result: { current?: UseCropperHistoryResult } = {};
+  const Harness = () => {
+    const history = useCropperHistory();
+    result.current = history;
+    return (
+      <CropperCanvas ref={history.canvasRef}>
+        <CropperImage translatable />
+        <CropperSelection />
+      </CropperCanvas>
+    );
+  };
+  const { container } = render(<Harness />);
+  return {
+    result,
+    canvas: container.querySelector('cropper-canvas') as CropperCanvasElement,
+    image: container.querySelector('cropper-image') as CropperImageElement,
+    selection: container.querySelector(
+      'cropper-selection',
+    ) as CropperSelectionElement,
+  };
+};
+
+describe('useCropperHistory', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records a drag as one step', () => {
+    const { result, canvas, selection } = renderHistory();
+
+    act(() => {
+      canvas.dispatchEvent(new CustomEvent('actionstart'));
+      selection.$change(0, 0, 10, 10);
+      selection.$change(0, 0, 20, 20);
+      canvas.dispatchEvent(new CustomEvent('actionend'));
+    });
+    expect(result.current?.canUndo).toBe(true);
+
+    act(() => {
+      result.current?.undo();
+    });
+    expect(selection.width).toBe(0);
+    expect(result.current?.canUndo).toBe(false);
+    expect(result.current?.canRedo).toBe(true);
+
+    act(() => {
+      result.current?.redo();
+    });
+    expect(selection.width).toBe(20);
+  });
+
+  it('merges edits in quick succession', () => {
+    vi.useFakeTimers();
+    const { result, image } = renderHistory();
+
+    act(() => {
+      image.$move(10, 0);
+      vi.advanceTimersByTime(100);
+      image.$move(10, 0);
+      vi.advanceTimersByTime(300);
+    });
+    expect(result.current?.canUndo).toBe(true);
+
+    act(() => {
+      result.current?.undo();
+    });
+    expect(image.$getTransform()).toEqual([1, 0, 0, 1, 0, 0]);
+    expect(result.current?.canUndo).toBe(false);
+  });
+
+  it('undoes with keyboard shortcuts on the canvas', () => {
+    const { canvas, image } = renderHistory();
+
+    act(() => {
+      canvas.dispatchEvent(new CustomEvent('actionstart'));
+      image.$move(10, 0);
+      canvas.dispatchEvent(new CustomEvent('actionend'));
+    });
+    expect(canvas.tabIndex).toBe(0);
+
+    act(() => {
+      fireEvent.keyDown(canvas, { key: 'z', ctrlKey: true });
+    });
+    expect(image.$getTransform()).toEqual([1, 0, 0, 1, 0, 0]);
+
+    act(() => {
+      fireEvent.keyDown(canvas, { key: 'Z', ctrlKey: true, shiftKey: true });
+    });
+    expect(image.$getTransform()).toEqual([1, 0, 0, 1, 10, 0]);
+  });
+});
@@ -0,0 +1,262 @@
+import type {
+  CropperCanvas as CropperCanvasElement,
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
+import {
+  type RefCallback,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { getRelatedTagName } from '../elements';
+import type { CropperSelectionValue } from '../events';
+import { type CropperImageMatrix, toMatrix } from '../utils/transform';
+
+export interface UseCropperHistoryOptions {
+  /** The maximum number of undo steps kept, 100 by default. */
+  limit?: number;
+  /**
+   * Edits outside pointer drags, such as wheel zooms or keyboard moves, that
+   * follow each other within this many milliseconds are merged. 300 by
+   * default.
+   */
+  mergeInterval?: number;
+  /**
+   * Handles Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y while focus is within the
+   * canvas, making the canvas focusable if needed. `true` by default.
+   */
+  keyboard?: boolean;
+}
+
+export interface UseCropperHistoryResult {
+  canvasRef: RefCallback<CropperCanvasElement>;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Forgets all steps, keeping the current state. */
+  clear: () => void;
+}
+
+interface CropperSnapshot {
+  matrix: CropperImageMatrix | null;
+  selections: CropperSelectionValue[];
+}
+
+const getImage = (canvas: CropperCanvasElement) =>
+  canvas.querySelector(
+    getRelatedTagName(canvas, 'image'),
+  ) as CropperImageElement | null;
+
+const getSelections = (canvas: CropperCanvasElement) =>
+  Array.from(
+    canvas.querySelectorAll(getRelatedTagName(canvas, 'selection')),
+  ) as CropperSelectionElement[];
+
+const takeSnapshot = (canvas: CropperCanvasElement): CropperSnapshot => {
+  const image = getImage(canvas);
+
+  return {
+    matrix: image
+      ? toMatrix(image.$getTransform() as CropperImageMatrix)
+      : null,
+    selections: getSelections(canvas).map(({ x, y, width, height }) => ({
+      x,
+      y,
+      width,
+      height,
+    })),
+  };
+};
+
+const isSameSnapshot = (a: CropperSnapshot, b: CropperSnapshot) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const restoreSnapshot = (
+  canvas: CropperCanvasElement,
+  { matrix, selections }: CropperSnapshot,
+) => {
+  const image = getImage(canvas);
+  if (image && matrix) {
+    image.$setTransform(matrix);
+  }
+
+  getSelections(canvas).forEach((selection, index) => {
+    const value = selections[index];
+    if (value) {
+      selection.$change(value.x, value.y, value.width, value.height);
+    }
+  });
+};
+
+/**
+ * Records undo steps for a `CropperCanvas`: image transforms and selection
+ * changes. Pointer drags become one step each, from `actionstart` to
+ * `actionend`.
+ */
+export const useCropperHistory = ({
+  limit = 100,
+  mergeInterval = 300,
+  keyboard = true,
+}: UseCropperHistoryOptions = {}): UseCropperHistoryResult => {
+  const canvasElementRef = useRef<CropperCanvasElement | null>(null);
+  const undoStackRef = useRef<CropperSnapshot[]>([]);
+  const redoStackRef = useRef<CropperSnapshot[]>([]);
+  // The state the next step starts from
+  const currentRef = useRef<CropperSnapshot | null>(null);
+  const draggingRef = useRef(false);
+  // Set while the history itself restores a snapshot
+  const restoringRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const optionsRef = useRef({ limit, mergeInterval, keyboard });
+  optionsRef.current = { limit, mergeInterval, keyboard };
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const sync = useCallback(() => {
+    setCanUndo(undoStackRef.current.length > 0);
+    setCanRedo(redoStackRef.current.length > 0);
+  }, []);
+
+  const cancelCommit = useCallback(() => {
+    clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+  }, []);
+
+  // Turns everything since the last step into a new step
+  const commit = useCallback(() => {
+    cancelCommit();
+    const canvas = canvasElementRef.current;
+    const current = currentRef.current;
+    if (!canvas || !current) return;
+
+    const next = takeSnapshot(canvas);
+    if (isSameSnapshot(current, next)) return;
+
+    const undoStack = [...undoStackRef.current, current];
+    undoStackRef.current = undoStack.slice(
+      Math.max(0, undoStack.length - optionsRef.current.limit),
+    );
+    redoStackRef.current = [];
+    currentRef.current = next;
+    sync();
+  }, [cancelCommit, sync]);
+
+  const clear = useCallback(() => {
+    cancelCommit();
+    const canvas = canvasElementRef.current;
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    currentRef.current = canvas ? takeSnapshot(canvas) : null;
+    sync();
+  }, [cancelCommit, sync]);
+
+  const travel = useCallback(
+    (from: CropperSnapshot[], to: CropperSnapshot[]) => {
+      if (!draggingRef.current) commit();
+      const canvas = canvasElementRef.current;
+      const current = currentRef.current;
+      const target = from.pop();
+      if (!canvas || !current || !target) return;
+
+      to.push(current);
+      currentRef.current = target;
+      restoringRef.current = true;
+      try {
+        restoreSnapshot(canvas, target);
+      } finally {
+        restoringRef.current = false;
+      }
+      sync();
+    },
+    [commit, sync],
+  );
+
+  const undo = useCallback(() => {
+    travel(undoStackRef.current, redoStackRef.current);
+  }, [travel]);
+
+  const redo = useCallback(() => {
+    travel(redoStackRef.current, undoStackRef.current);
+  }, [travel]);
+
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  const canvasRef = useCallback<RefCallback<CropperCanvasElement>>(
+    (element) => {
+      cleanupRef.current?.();
+      cleanupRef.current = null;
+      canvasElementRef.current = element;
+      clear();
+      if (!element) return;
+
+      // Make the canvas focusable for the shortcuts
+      if (optionsRef.current.keyboard && !element.hasAttribute('tabindex')) {
+        element.tabIndex = 0;
+      }
+
+      const handleActionStart = () => {
+        commit();
+        draggingRef.current = true;
+      };
+      const handleActionEnd = () => {
+        draggingRef.current = false;
+        commit();
+      };
+      const handleEdit = () => {
+        if (restoringRef.current || draggingRef.current) return;
+
+        // Events fire before the edit applies, so record it afterwards
+        cancelCommit();
+        timerRef.current = setTimeout(commit, optionsRef.current.mergeInterval);
+      };
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (!optionsRef.current.keyboard || !(event.ctrlKey || event.metaKey))
+          return;
+
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault();
+          undo();
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+          event.preventDefault();
+          redo();
+        }
+      };
+      // A new image is re-centered when it loads, which isn't an edit
+      const image = getImage(element);
+      const $image = image?.$image;
+
+      const eventMap: Record<string, EventListener> = {
+        actionstart: handleActionStart,
+        actionend: handleActionEnd,
+        transform: handleEdit,
+        change: handleEdit,
+        keydown: handleKeyDown as EventListener,
+      };
+      Object.entries(eventMap).forEach(([event, handler]) => {
+        element.addEventListener(event, handler);
+      });
+      $image?.addEventListener('load', clear);
+
+      cleanupRef.current = () => {
+        Object.entries(eventMap).forEach(([event, handler]) => {
+          element.removeEventListener(event, handler);
+        });
+        $image?.removeEventListener('load', clear);
+      };
+    },
+    [cancelCommit, clear, commit, undo, redo],
+  );
+
+  // Stop pending commits on unmount
+  useEffect(() => cancelCommit, [cancelCommit]);
+
+  return useMemo(
+    () => ({ canvasRef, undo, redo, canUndo, canRedo, clear }),
+    [canvasRef, undo, redo, canUndo, canRedo, clear],
+  );
+};
@@ -0,0 +1,52 @@
+import { type RefObject, useEffect, useRef } from 'react';
+
+// An unconnected instance per tag name, holding the element's defaults
+const defaultElements = new Map<string, HTMLElement>();
+
+const getDefault = (element: HTMLElement, property: string) => {
+  let defaults = defaultElements.get(element.localName);
+  if (!defaults) {
+    defaults = element.ownerDocument.createElement(element.localName);
+    defaultElements.set(element.localName, defaults);
+  }
+  return (defaults as unknown as Record<string, unknown>)[property];
+};
+
+/**
+ * Writes props to element properties. A prop that changes to `undefined`
+ * after being written restores the element's default, so the props fully
+ * describe the element.
+ */
+export const useElementProperties = <T extends HTMLElement>(
+  elementRef: RefObject<T | null>,
+  properties: { [K in keyof T]?: T[K] },
+) => {
+  // The values last written to the current element, by property
+  const writtenRef = useRef(new Map<string, unknown>());
+  const writtenElementRef = useRef<T | null>(null);
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+
+    // A remounted element starts from its defaults again
+    if (writtenElementRef.current !== element) {
+      writtenElementRef.current = element;
+      writtenRef.current.clear();
+    }
+
+    const written = writtenRef.current;
+    const target = element as unknown as Record<string, unknown>;
+    Object.entries(properties).forEach(([property, value]) => {
+      if (value !== undefined) {
+        if (!Object.is(written.get(property), value)) {
+          target[property] = value;
+          written.set(property, value);
+        }
+      } else if (written.has(property)) {
+        target[property] = getDefault(element, property);
+        written.delete(property);
+      }
+    });
+  });
+};
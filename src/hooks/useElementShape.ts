@@ -0,0 +1,79 @@
+import { type RefObject, useEffect } from 'react';
+import type { CropShape } from '../utils/shape';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Covers the canvas around a unit-box path, at any selection size
+const OUTSIDE_PATH = 'M-1e5-1e5H1e5V1e5H-1e5Z';
+
+/**
+ * Shapes a shade's cut-out or a selection's outline. Ellipses and rounded
+ * rects round the element's box, which its outline follows. Paths hide the
+ * outline and draw an SVG in the shadow root instead: filled around the path
+ * for a shade, stroked along it for a selection while `outlined`.
+ */
+export const useElementShape = (
+  elementRef: RefObject<
+    (HTMLElement & { $getShadowRoot: () => ShadowRoot }) | null
+  >,
+  shape: CropShape | undefined,
+  part: 'cutout' | 'outline',
+) => {
+  // Compared by value, so inline shape objects don't redraw every render
+  const key = JSON.stringify(shape ?? 'rect');
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+
+    const current = JSON.parse(key) as CropShape;
+    const { style } = element;
+    if (current === 'ellipse') {
+      style.borderRadius = '50%';
+    } else if (typeof current === 'object' && current.type === 'rounded') {
+      style.borderRadius = `${current.radius}px`;
+    }
+
+    const root = element.$getShadowRoot();
+    if (typeof current !== 'object' || current.type !== 'path' || !root) {
+      return () => {
+        style.borderRadius = '';
+      };
+    }
+
+    const svg = document.createElementNS(SVG_NAMESPACE, 'svg');
+    svg.setAttribute('part', 'shape');
+    svg.setAttribute('viewBox', '0 0 1 1');
+    svg.setAttribute('preserveAspectRatio', 'none');
+    svg.setAttribute('aria-hidden', 'true');
+    svg.setAttribute(
+      'style',
+      'position:absolute;left:0;top:0;width:100%;height:100%;overflow:visible;pointer-events:none',
+    );
+    const path = document.createElementNS(SVG_NAMESPACE, 'path');
+    const sheet = document.createElement('style');
+
+    if (part === 'cutout') {
+      path.setAttribute('d', `${OUTSIDE_PATH}${current.path}`);
+      path.setAttribute('fill', 'var(--theme-color)');
+      path.setAttribute('fill-rule', 'evenodd');
+      style.outlineColor = 'transparent';
+    } else {
+      path.setAttribute('d', current.path);
+      path.setAttribute('fill', 'none');
+      path.setAttribute('stroke', 'var(--theme-color)');
+      path.setAttribute('vector-effect', 'non-scaling-stroke');
+      sheet.textContent = ':host(:not([outlined])) [part=shape]{display:none}';
+      style.outlineStyle = 'none';
+    }
+    svg.append(path);
+    root.append(sheet, svg);
+
+    return () => {
+      sheet.remove();
+      svg.remove();
+      style.outlineColor = '';
+      style.outlineStyle = '';
+    };
+  }, [elementRef, key, part]);
+};
@@ -0,0 +1,110 @@
+import { fireEvent, render, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type UseImageSourceOptions,
+  type UseImageSourceResult,
+  useImageSource,
+} from './useImageSource';
+
+const png = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const createFile = (bytes: number[], type: string, name = 'image.png') =>
+  new File([new Uint8Array(bytes)], name, { type });
+
+const renderImageSource = (options?: UseImageSourceOptions) => {
+  const result: { current?: UseImageSourceResult } = {};
+  const Harness = () => {
+    const source = useImageSource(options);
+    result.current = source;
+    return (
+      <div data-testid="drop" {...source.dropProps}>
+        <input data-testid="input" {...source.inputProps} />
+      </div>
+    );
+  };
+  const { getByTestId, unmount } = render(<Harness />);
+  return {
+    result,
+    unmount,
+    input: getByTestId('input') as HTMLInputElement,
+    drop: getByTestId('drop'),
+  };
+};
+
+describe('useImageSource', () => {
+  let count = 0;
+  const createObjectURL = vi.fn(() => {
+    count += 1;
+    return `blob:image-${count}`;
+  });
+  const revokeObjectURL = vi.fn();
+
+  beforeEach(() => {
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads picked images through object URLs', async () => {
+    const handleChange = vi.fn();
+    const { result, input } = renderImageSource({
+      initialSrc: 'initial.png',
+      onChange: handleChange,
+    });
+    expect(result.current?.src).toBe('initial.png');
+
+    const file = createFile(png, 'image/png');
+    fireEvent.change(input, { target: { files: [file] } });
+    expect(result.current?.progress).toEqual({ loaded: 0, total: 8 });
+
+    await waitFor(() => expect(result.current?.src).toBe('blob:image-1'));
+    expect(result.current?.file).toBe(file);
+    expect(result.current?.progress).toBe(null);
+    expect(handleChange).toHaveBeenCalledWith('blob:image-1', file, null);
+  });
+
+  it('revokes replaced object URLs', async () => {
+    const { result, drop, unmount } = renderImageSource();
+
+    for (const name of ['first.png', 'second.png']) {
+      fireEvent.drop(drop, {
+        dataTransfer: {
+          types: ['Files'],
+          files: [createFile(png, 'image/png', name)],
+        },
+      });
+      await waitFor(() => expect(result.current?.file?.name).toBe(name));
+    }
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:image-1');
+
+    unmount();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:image-2');
+  });
+
+  it('rejects files over the size limit', () => {
+    const handleError = vi.fn();
+    const { result, input } = renderImageSource({
+      maxSize: 4,
+      onError: handleError,
+    });
+
+    fireEvent.change(input, {
+      target: { files: [createFile(png, 'image/png')] },
+    });
+    expect(result.current?.error?.code).toBe('size');
+    expect(handleError).toHaveBeenCalledTimes(1);
+    expect(createObjectURL).not.toHaveBeenCalled();
+  });
+
+  it('checks the contents as well as the declared type', async () => {
+    const { result, input } = renderImageSource({ accept: ['image/png'] });
+
+    fireEvent.change(input, {
+      target: { files: [createFile([0x3c, 0x73, 0x76, 0x67], 'image/png')] },
+    });
+    await waitFor(() => expect(result.current?.error?.code).toBe('type'));
+    expect(result.current?.src).toBe(undefined);
+  });
+});
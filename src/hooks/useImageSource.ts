@@ -0,0 +1,359 @@
+import {
+  type ChangeEvent,
+  type DragEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import {
+  type PreparedImage,
+  type PrepareImageOptions,
+  prepareImage,
+} from '../utils/prepare';
+
+export type ImageSourceErrorCode = 'type' | 'size' | 'read' | 'decode';
+
+export interface ImageSourceError {
+  code: ImageSourceErrorCode;
+  message: string;
+  file: File;
+}
+
+export interface ImageSourceProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UseImageSourceOptions {
+  /** The source shown before a file is picked. */
+  initialSrc?: string;
+  /**
+   * Accepted MIME types, as in an `accept` attribute. Entries may end in
+   * `/*`. `['image/*']` by default.
+   */
+  accept?: string[];
+  /** The largest accepted file, in bytes. */
+  maxSize?: number;
+  /** Accepts images pasted anywhere on the page, outside text fields. */
+  paste?: boolean;
+  /**
+   * Turns files upright by their EXIF orientation and, with `maxWidth` or
+   * `maxHeight`, shows a scaled-down proxy. See `prepareImage`.
+   */
+  prepare?: boolean | PrepareImageOptions;
+  onChange?: (src: string, file: File, image: PreparedImage | null) => void;
+  onError?: (error: ImageSourceError) => void;
+}
+
+export interface UseImageSourceResult {
+  /** The current source, an object URL for picked files. */
+  src: string | undefined;
+  /** The picked file, or `null` for `initialSrc` and `setSrc` sources. */
+  file: File | null;
+  /** The prepared picked file, with `prepare`. */
+  image: PreparedImage | null;
+  /** Bytes read of the file being loaded, or `null` when idle. */
+  progress: ImageSourceProgress | null;
+  /** The last rejected file, cleared by the next accepted one. */
+  error: ImageSourceError | null;
+  /** Whether files are dragged over the drop target. */
+  dragging: boolean;
+  /** Props for an `<input type="file">`. */
+  inputProps: {
+    type: 'file';
+    accept: string;
+    onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  };
+  /** Drag-and-drop props for a drop target, such as `CropperCanvas`. */
+  dropProps: {
+    onDragEnter: (event: DragEvent) => void;
+    onDragOver: (event: DragEvent) => void;
+    onDragLeave: (event: DragEvent) => void;
+    onDrop: (event: DragEvent) => void;
+  };
+  /** Validates and loads a file. */
+  setFile: (file: File) => void;
+  /** Shows a source that isn't a picked file, e.g. a bundled image. */
+  setSrc: (src: string) => void;
+}
+
+// Leading bytes of the image types browsers decode
+const signatures: [type: string, offset: number, bytes: number[]][] = [
+  ['image/png', 0, [0x89, 0x50, 0x4e, 0x47]],
+  ['image/jpeg', 0, [0xff, 0xd8, 0xff]],
+  ['image/gif', 0, [0x47, 0x49, 0x46, 0x38]],
+  ['image/webp', 8, [0x57, 0x45, 0x42, 0x50]],
+  ['image/bmp', 0, [0x42, 0x4d]],
+  ['image/avif', 4, [0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66]],
+];
+
+// Returns the image type of file contents, or `null` for unknown types
+const sniffImageType = (bytes: Uint8Array) => {
+  const match = signatures.find(([, offset, signature]) =>
+    signature.every((byte, index) => bytes[offset + index] === byte),
+  );
+  return match ? match[0] : null;
+};
+
+const isAccepted = (type: string, accept: string[]) =>
+  accept.some((pattern) =>
+    pattern.endsWith('/*')
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern,
+  );
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.round(bytes / 1024)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement);
+
+/**
+ * Loads images from a file input, drag-and-drop or paste. Files are checked
+ * against `accept`, by their contents as well as their declared type, and
+ * against `maxSize`, then shown through object URLs that are revoked once
+ * replaced. Types without a known signature, such as SVG, are rejected.
+ */
+export const useImageSource = ({
+  initialSrc,
+  accept = ['image/*'],
+  maxSize = Infinity,
+  paste = false,
+  prepare = false,
+  onChange,
+  onError,
+}: UseImageSourceOptions = {}): UseImageSourceResult => {
+  const [source, setSource] = useState<{
+    src?: string;
+    file: File | null;
+    image: PreparedImage | null;
+  }>({ src: initialSrc, file: null, image: null });
+  const [progress, setProgress] = useState<ImageSourceProgress | null>(null);
+  const [error, setError] = useState<ImageSourceError | null>(null);
+  const [dragging, setDragging] = useState(false);
+  // The object URL currently shown, revoked when replaced
+  const objectUrlRef = useRef<string | null>(null);
+  const readerRef = useRef<FileReader | null>(null);
+  // Counts loads, so a replaced file's preparation is dropped
+  const loadIdRef = useRef(0);
+  // Nested targets fire enter and leave in pairs
+  const dragDepthRef = useRef(0);
+  const acceptList = accept.join(',');
+  const optionsRef = useRef({ accept, maxSize, prepare, onChange, onError });
+  optionsRef.current = { accept, maxSize, prepare, onChange, onError };
+
+  const show = useCallback(
+    (src: string, file: File | null, image: PreparedImage | null = null) => {
+      if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = file ? src : null;
+      setSource({ src, file, image });
+    },
+    [],
+  );
+
+  const reject = useCallback(
+    (file: File, code: ImageSourceErrorCode, message: string) => {
+      const rejection = { code, message, file };
+      setProgress(null);
+      setError(rejection);
+      optionsRef.current.onError?.(rejection);
+    },
+    [],
+  );
+
+  const setFile = useCallback(
+    (file: File) => {
+      const { accept: types, maxSize: limit } = optionsRef.current;
+      readerRef.current?.abort();
+      readerRef.current = null;
+      loadIdRef.current += 1;
+      const loadId = loadIdRef.current;
+
+      if (file.type && !isAccepted(file.type, types)) {
+        reject(file, 'type', `Unsupported file type: ${file.type}`);
+        return;
+      }
+      if (file.size > limit) {
+        reject(
+          file,
+          'size',
+          `File is larger than ${formatBytes(limit)}: ${formatBytes(file.size)}`,
+        );
+        return;
+      }
+
+      const reader = new FileReader();
+      readerRef.current = reader;
+      setProgress({ loaded: 0, total: file.size });
+      reader.onprogress = (event) => {
+        if (readerRef.current !== reader) return;
+        setProgress({ loaded: event.loaded, total: file.size });
+      };
+      reader.onerror = () => {
+        if (readerRef.current !== reader) return;
+        readerRef.current = null;
+        reject(file, 'read', reader.error?.message ?? 'Failed to read file');
+      };
+      reader.onload = () => {
+        if (readerRef.current !== reader) return;
+        readerRef.current = null;
+
+        // Declared types come from file names, so check the contents
+        const bytes = new Uint8Array(reader.result as ArrayBuffer);
+        const type = sniffImageType(bytes);
+        if (!type || !isAccepted(type, optionsRef.current.accept)) {
+          reject(
+            file,
+            'type',
+            `Unsupported file type: ${type ?? (file.type || 'unknown')}`,
+          );
+          return;
+        }
+
+        const blob = new Blob([bytes], { type });
+        const showImage = (image: PreparedImage | null) => {
+          const src = URL.createObjectURL(image?.blob ?? blob);
+          setProgress(null);
+          setError(null);
+          show(src, file, image);
+          optionsRef.current.onChange?.(src, file, image);
+        };
+
+        const { prepare: preparation } = optionsRef.current;
+        if (!preparation) {
+          showImage(null);
+          return;
+        }
+
+        prepareImage(blob, preparation === true ? {} : preparation).then(
+          (image) => {
+            if (loadIdRef.current === loadId) showImage(image);
+          },
+          (reason: unknown) => {
+            if (loadIdRef.current !== loadId) return;
+            reject(
+              file,
+              'decode',
+              reason instanceof Error ? reason.message : String(reason),
+            );
+          },
+        );
+      };
+      reader.readAsArrayBuffer(file);
+    },
+    [reject, show],
+  );
+
+  const setSrc = useCallback(
+    (src: string) => {
+      readerRef.current?.abort();
+      readerRef.current = null;
+      loadIdRef.current += 1;
+      setProgress(null);
+      show(src, null);
+    },
+    [show],
+  );
+
+  // Paste listener
+  useEffect(() => {
+    if (!paste) return;
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isTextField(event.target)) return;
+
+      const file = Array.from(event.clipboardData?.files ?? [])[0];
+      if (file) {
+        event.preventDefault();
+        setFile(file);
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [paste, setFile]);
+
+  // Revoke the last object URL and stop reading on unmount
+  useEffect(
+    () => () => {
+      readerRef.current?.abort();
+      readerRef.current = null;
+      loadIdRef.current += 1;
+      if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    },
+    [],
+  );
+
+  const inputProps = useMemo<UseImageSourceResult['inputProps']>(
+    () => ({
+      type: 'file',
+      accept: acceptList,
+      onChange: (event) => {
+        const file = event.target.files?.[0];
+        if (file) setFile(file);
+        // Allow picking the same file again
+        event.target.value = '';
+      },
+    }),
+    [acceptList, setFile],
+  );
+
+  const dropProps = useMemo<UseImageSourceResult['dropProps']>(() => {
+    const hasFiles = (event: DragEvent) =>
+      Array.from(event.dataTransfer?.types ?? []).includes('Files');
+
+    return {
+      onDragEnter: (event) => {
+        if (!hasFiles(event)) return;
+        event.preventDefault();
+        dragDepthRef.current += 1;
+        setDragging(true);
+      },
+      onDragOver: (event) => {
+        if (!hasFiles(event)) return;
+        // Allow dropping
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+      },
+      onDragLeave: (event) => {
+        if (!hasFiles(event)) return;
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+        if (dragDepthRef.current === 0) setDragging(false);
+      },
+      onDrop: (event) => {
+        if (!hasFiles(event)) return;
+        event.preventDefault();
+        dragDepthRef.current = 0;
+        setDragging(false);
+        const file = event.dataTransfer.files[0];
+        if (file) setFile(file);
+      },
+    };
+  }, [setFile]);
+
+  return useMemo(
+    () => ({
+      src: source.src,
+      file: source.file,
+      image: source.image,
+      progress,
+      error,
+      dragging,
+      inputProps,
+      dropProps,
+      setFile,
+      setSrc,
+    }),
+    [source, progress, error, dragging, inputProps, dropProps, setFile, setSrc],
+  );
+};
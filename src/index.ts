@@ -1,7 +1,29 @@
+export * from './components/Cropper';
 export * from './components/CropperCanvas';
 export * from './components/CropperCrosshair';
 export * from './components/CropperGrid';
 export * from './components/CropperHandle';
 export * from './components/CropperImage';
+export * from './components/CropperProvider';
 export * from './components/CropperSelection';
+export * from './components/CropperSelections';
 export * from './components/CropperShade';
+export * from './components/CropperViewer';
+export * from './elements';
+export * from './events';
+export * from './hooks/useCropExporter';
+export * from './hooks/useCropper';
+export * from './hooks/useCropperHistory';
+export * from './hooks/useImageSource';
+export type { CropperElementProps } from './properties';
+export * from './utils/exif';
+export * from './utils/export';
+export * from './utils/exporter';
+export { getImageLayout, type ImageLayout } from './utils/geometry';
+export * from './utils/natural';
+export * from './utils/original';
+export * from './utils/prepare';
+export * from './utils/shape';
+export * from './utils/srcset';
+export * from './utils/state';
+export * from './utils/transform';
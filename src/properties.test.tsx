@@ -0,0 +1,286 @@
+import { act, render } from '@testing-library/react';
+import type {
+  CropperCanvas as CropperCanvasElement,
+  CropperCrosshair as CropperCrosshairElement,
+  CropperGrid as CropperGridElement,
+  CropperHandle as CropperHandleElement,
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+  CropperShade as CropperShadeElement,
+  CropperViewer as CropperViewerElement,
+} from 'cropperjs';
+import * as cropper from 'cropperjs';
+import { type ComponentType, createElement } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CropperCanvas,
+  type CropperCanvasProps,
+} from './components/CropperCanvas';
+import {
+  CropperCrosshair,
+  type CropperCrosshairProps,
+} from './components/CropperCrosshair';
+import { CropperGrid, type CropperGridProps } from './components/CropperGrid';
+import {
+  CropperHandle,
+  type CropperHandleProps,
+} from './components/CropperHandle';
+import {
+  CropperImage,
+  type CropperImageProps,
+} from './components/CropperImage';
+import {
+  CropperSelection,
+  type CropperSelectionProps,
+} from './components/CropperSelection';
+import {
+  CropperShade,
+  type CropperShadeProps,
+} from './components/CropperShade';
+import {
+  CropperViewer,
+  type CropperViewerProps,
+} from './components/CropperViewer';
+import { type CropperElementName, getCropperTagName } from './elements';
+
+interface CropperElementTypes {
+  canvas: [CropperCanvasElement, CropperCanvasProps];
+  crosshair: [CropperCrosshairElement, CropperCrosshairProps];
+  grid: [CropperGridElement, CropperGridProps];
+  handle: [CropperHandleElement, CropperHandleProps];
+  image: [CropperImageElement, CropperImageProps];
+  selection: [CropperSelectionElement, CropperSelectionProps];
+  shade: [CropperShadeElement, CropperShadeProps];
+  viewer: [CropperViewerElement, CropperViewerProps];
+}
+
+type CropperPropertyMapping = {
+  [N in CropperElementName]: {
+    [K in keyof CropperElementTypes[N][0]]?: keyof CropperElementTypes[N][1];
+  };
+};
+
+type CropperEventMapping = {
+  [N in CropperElementName]?: Record<string, keyof CropperElementTypes[N][1]>;
+};
+
+const baseProperties = {
+  shadowRootMode: 'shadowRootMode',
+  slottable: 'slottable',
+  themeColor: 'themeColor',
+} as const;
+
+/**
+ * The wrapper prop that sets each element property, with one property per
+ * attribute in the element's `observedAttributes`.
+ */
+const CROPPER_ELEMENT_PROPERTIES = {
+  canvas: {
+    ...baseProperties,
+    background: 'background',
+    disabled: 'disabled',
+    scaleStep: 'scaleStep',
+  },
+  crosshair: {
+    ...baseProperties,
+    centered: 'centered',
+  },
+  grid: {
+    ...baseProperties,
+    bordered: 'bordered',
+    columns: 'columns',
+    covered: 'covered',
+    rows: 'rows',
+  },
+  handle: {
+    ...baseProperties,
+    action: 'action',
+    plain: 'plain',
+  },
+  image: {
+    ...baseProperties,
+    alt: 'alt',
+    crossorigin: 'crossOrigin',
+    decoding: 'decoding',
+    elementtiming: 'elementTiming',
+    fetchpriority: 'fetchPriority',
+    loading: 'loading',
+    referrerpolicy: 'referrerPolicy',
+    sizes: 'sizes',
+    src: 'src',
+    srcset: 'srcSet',
+    initialCenterSize: 'initialCenterSize',
+    rotatable: 'rotatable',
+    scalable: 'scalable',
+    skewable: 'skewable',
+    translatable: 'translatable',
+  },
+  selection: {
+    ...baseProperties,
+    active: 'active',
+    aspectRatio: 'aspectRatio',
+    dynamic: 'dynamic',
+    // Geometry goes through `value` or `defaultValue`
+    height: 'value',
+    initialAspectRatio: 'initialAspectRatio',
+    initialCoverage: 'initialCoverage',
+    keyboard: 'keyboard',
+    linked: 'linked',
+    movable: 'movable',
+    multiple: 'multiple',
+    outlined: 'outlined',
+    precise: 'precise',
+    resizable: 'resizable',
+    width: 'value',
+    x: 'value',
+    y: 'value',
+    zoomable: 'zoomable',
+  },
+  shade: {
+    ...baseProperties,
+    height: 'height',
+    width: 'width',
+    x: 'x',
+    y: 'y',
+  },
+  viewer: {
+    ...baseProperties,
+    resize: 'resize',
+    selection: 'selection',
+  },
+} as const satisfies CropperPropertyMapping;
+
+/** The wrapper prop that handles each event an element emits. */
+const CROPPER_ELEMENT_EVENTS = {
+  canvas: {
+    action: 'onAction',
+    actionstart: 'onActionStart',
+    actionmove: 'onActionMove',
+    actionend: 'onActionEnd',
+  },
+  image: {
+    transform: 'onTransform',
+  },
+  selection: {
+    change: 'onChange',
+  },
+} as const satisfies CropperEventMapping;
+
+const wrappers: Record<CropperElementName, ComponentType<object>> = {
+  canvas: CropperCanvas,
+  crosshair: CropperCrosshair,
+  grid: CropperGrid,
+  // Rendered one prop at a time, without the required `action`
+  handle: CropperHandle as ComponentType<object>,
+  image: CropperImage,
+  selection: CropperSelection,
+  shade: CropperShade,
+  viewer: CropperViewer,
+};
+
+const names = Object.keys(wrappers) as CropperElementName[];
+
+const toCamelCase = (value: string) =>
+  value.replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase());
+
+const getObservedProperties = (name: CropperElementName) => {
+  const ElementClass = customElements.get(
+    getCropperTagName(name),
+  ) as unknown as {
+    observedAttributes: string[];
+  };
+  return ElementClass.observedAttributes.map(toCamelCase).sort();
+};
+
+// A value other than the element's default
+const getTestValue = (property: string, defaultValue: unknown) => {
+  switch (typeof defaultValue) {
+    case 'boolean':
+      return !defaultValue;
+    case 'number':
+      return Number.isNaN(defaultValue) ? 2 : defaultValue + 1;
+    default:
+      return property === 'shadowRootMode' ? 'closed' : 'test';
+  }
+};
+
+describe('CROPPER_ELEMENT_PROPERTIES', () => {
+  it.each(names)('covers the observed attributes of %s', (name) => {
+    expect(Object.keys(CROPPER_ELEMENT_PROPERTIES[name]).sort()).toEqual(
+      getObservedProperties(name),
+    );
+  });
+
+  it.each(names)('matches the props the %s wrapper forwards', async (name) => {
+    const tagName = getCropperTagName(name);
+    const defaults = document.createElement(tagName) as unknown as Record<
+      string,
+      unknown
+    >;
+
+    for (const [property, prop] of Object.entries(
+      CROPPER_ELEMENT_PROPERTIES[name],
+    )) {
+      const value = getTestValue(property, defaults[property]);
+      const props =
+        prop === 'value'
+          ? { value: { x: 0, y: 0, width: 0, height: 0, [property]: value } }
+          : { [prop]: value };
+      const { container, unmount } = render(
+        createElement(wrappers[name], props),
+      );
+      await act(async () => {});
+
+      const element = container.querySelector(tagName) as unknown as Record<
+        string,
+        unknown
+      >;
+      expect(element[property], property).toEqual(value);
+      unmount();
+    }
+  });
+});
+
+describe('CROPPER_ELEMENT_EVENTS', () => {
+  // Events Cropper.js listens to but doesn't emit itself
+  const nativeEvents = ['error', 'keydown', 'load', 'resize', 'wheel'];
+
+  it('covers the events Cropper.js emits', () => {
+    const emitted = Object.entries(cropper)
+      .filter(
+        ([key, value]) =>
+          /^EVENT_/.test(key) &&
+          !/^EVENT_(POINTER|TOUCH)_/.test(key) &&
+          !nativeEvents.includes(value as string),
+      )
+      .map(([, value]) => value)
+      .sort();
+    const mapped = Object.values(CROPPER_ELEMENT_EVENTS)
+      .flatMap((events) => Object.keys(events))
+      .sort();
+    expect(mapped).toEqual(emitted);
+  });
+
+  it.each(
+    Object.keys(CROPPER_ELEMENT_EVENTS),
+  )('matches the handlers of the %s wrapper', (name) => {
+    const events =
+      CROPPER_ELEMENT_EVENTS[name as keyof typeof CROPPER_ELEMENT_EVENTS];
+    const handlers = Object.fromEntries(
+      Object.values(events).map((prop) => [prop, vi.fn()]),
+    );
+    const tagName = getCropperTagName(name as CropperElementName);
+    const { container } = render(
+      createElement(wrappers[name as CropperElementName], handlers),
+    );
+    const element = container.querySelector(tagName) as HTMLElement;
+
+    for (const [event, prop] of Object.entries(events)) {
+      const matrix = [1, 0, 0, 1, 0, 0];
+      element.dispatchEvent(
+        new CustomEvent(event, { detail: { matrix, oldMatrix: matrix } }),
+      );
+      expect(handlers[prop], prop).toHaveBeenCalledTimes(1);
+    }
+  });
+});
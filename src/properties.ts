@@ -0,0 +1,8 @@
+/** Props of the base Cropper.js element, shared by every wrapper. */
+export interface CropperElementProps {
+  /** `'open'` by default. Only read when the element is created. */
+  shadowRootMode?: ShadowRootMode;
+  /** Whether children are slotted. Only read when the element is created. */
+  slottable?: boolean;
+  themeColor?: string;
+}
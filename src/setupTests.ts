@@ -1 +1,5 @@
 import '@testing-library/jest-dom';
+import { defineCropperElements } from './elements';
+
+// Define the elements up front so components render synchronously
+await defineCropperElements();
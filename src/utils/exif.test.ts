@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getOrientationMatrix,
+  readExifOrientation,
+  resetExifOrientation,
+} from './exif';
+
+// Builds a JPEG header with a JFIF segment and an EXIF orientation
+const createJpeg = (orientation: number, littleEndian = false) => {
+  const u16 = (value: number) =>
+    littleEndian ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+  const u32 = (value: number) =>
+    littleEndian
+      ? [...u16(value & 0xffff), ...u16(value >>> 16)]
+      : [...u16(value >>> 16), ...u16(value & 0xffff)];
+  const tiff = [
+    ...(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]),
+    ...u16(42),
+    ...u32(8),
+    ...u16(1),
+    // Orientation entry: tag, SHORT type, count 1, value
+    ...u16(0x0112),
+    ...u16(3),
+    ...u32(1),
+    ...u16(orientation),
+    0,
+    0,
+    ...u32(0),
+  ];
+  const exif = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    0xff,
+    0xe0,
+    0,
+    7,
+    0x4a,
+    0x46,
+    0x49,
+    0x46,
+    0,
+    0xff,
+    0xe1,
+    (exif.length + 2) >> 8,
+    (exif.length + 2) & 0xff,
+    ...exif,
+    0xff,
+    0xda,
+    0,
+    2,
+  ]);
+};
+
+describe('readExifOrientation', () => {
+  it('reads both byte orders', () => {
+    expect(readExifOrientation(createJpeg(6))).toBe(6);
+    expect(readExifOrientation(createJpeg(8, true))).toBe(8);
+  });
+
+  it('falls back to upright', () => {
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(
+      1,
+    );
+    expect(readExifOrientation(new Uint8Array([0xff, 0xd8, 0xff, 0xda]))).toBe(
+      1,
+    );
+    expect(readExifOrientation(createJpeg(9))).toBe(1);
+    expect(readExifOrientation(createJpeg(6).slice(0, 30))).toBe(1);
+  });
+});
+
+describe('resetExifOrientation', () => {
+  it('sets a copy upright', () => {
+    const bytes = createJpeg(3, true);
+    const reset = resetExifOrientation(bytes);
+
+    expect(readExifOrientation(reset)).toBe(1);
+    expect(readExifOrientation(bytes)).toBe(3);
+    expect(reset.length).toBe(bytes.length);
+  });
+});
+
+describe('getOrientationMatrix', () => {
+  // The upright corners of a 4×2 image stored for each orientation
+  it.each([
+    [2, 4, 2, { x: 4, y: 0 }],
+    [3, 4, 2, { x: 4, y: 2 }],
+    [4, 4, 2, { x: 0, y: 2 }],
+    [5, 2, 4, { x: 0, y: 0 }],
+    [6, 2, 4, { x: 2, y: 0 }],
+    [7, 2, 4, { x: 2, y: 4 }],
+    [8, 2, 4, { x: 0, y: 4 }],
+  ] as const)('places the stored origin for orientation %i', (orientation, width, height, origin) => {
+    const [a, b, c, d, e, f] = getOrientationMatrix(orientation, width, height);
+    // Apply the matrix as a canvas would, around the top-left corner
+    const apply = (x: number, y: number) => ({
+      x: a * x + c * y + e,
+      y: b * x + d * y + f,
+    });
+
+    expect(apply(0, 0)).toEqual(origin);
+    // The far stored corner stays within the upright image
+    const corner = apply(4, 2);
+    expect([0, width]).toContain(corner.x);
+    expect([0, height]).toContain(corner.y);
+  });
+
+  it('leaves upright images as they are', () => {
+    expect(getOrientationMatrix(1, 4, 2)).toEqual([1, 0, 0, 1, 0, 0]);
+  });
+});
@@ -0,0 +1,107 @@
+import type { CropperImageMatrix } from './transform';
+
+/** EXIF orientations 1 to 8; 1 is upright. */
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const ORIENTATION_TAG = 0x0112;
+
+// Returns the offset of the orientation value in a JPEG and its byte order,
+// or `null` without one
+const findOrientation = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Metadata segments come before the image data
+    if (marker === 0xda || marker === 0xd9) return null;
+
+    const length = view.getUint16(offset + 2);
+    const isExif =
+      marker === 0xe1 &&
+      offset + 10 <= view.byteLength &&
+      view.getUint32(offset + 4) === 0x45786966 && // "Exif"
+      view.getUint16(offset + 8) === 0;
+    if (isExif) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return null;
+
+      const byteOrder = view.getUint16(tiff);
+      if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+      const littleEndian = byteOrder === 0x4949;
+
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return null;
+      const count = view.getUint16(ifd, littleEndian);
+      for (let index = 0; index < count; index += 1) {
+        const entry = ifd + 2 + index * 12;
+        if (entry + 12 > view.byteLength) return null;
+        if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+          return { view, offset: entry + 8, littleEndian };
+        }
+      }
+      return null;
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+};
+
+/**
+ * Reads the EXIF orientation of a JPEG. Returns 1 for other formats and for
+ * files without a valid orientation.
+ */
+export const readExifOrientation = (bytes: Uint8Array): ExifOrientation => {
+  const found = findOrientation(bytes);
+  const value = found?.view.getUint16(found.offset, found.littleEndian) ?? 1;
+
+  return value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+};
+
+/**
+ * Returns a copy of a JPEG with its EXIF orientation set to upright, so every
+ * browser decodes the stored pixels as they are.
+ */
+export const resetExifOrientation = (bytes: Uint8Array) => {
+  const copy = bytes.slice();
+  const found = findOrientation(copy);
+  found?.view.setUint16(found.offset, 1, found.littleEndian);
+  return copy;
+};
+
+/** Whether an orientation swaps the width and height. */
+export const isOrientationTransposed = (orientation: ExifOrientation) =>
+  orientation >= 5;
+
+/**
+ * The canvas transform that draws stored pixels upright. `width` and `height`
+ * are those of the upright output.
+ */
+export const getOrientationMatrix = (
+  orientation: ExifOrientation,
+  width: number,
+  height: number,
+): CropperImageMatrix => {
+  switch (orientation) {
+    case 2:
+      return [-1, 0, 0, 1, width, 0];
+    case 3:
+      return [-1, 0, 0, -1, width, height];
+    case 4:
+      return [1, 0, 0, -1, 0, height];
+    case 5:
+      return [0, 1, 1, 0, 0, 0];
+    case 6:
+      return [0, 1, -1, 0, width, 0];
+    case 7:
+      return [0, -1, -1, 0, width, height];
+    case 8:
+      return [0, -1, 1, 0, 0, height];
+    default:
+      return [1, 0, 0, 1, 0, 0];
+  }
+};
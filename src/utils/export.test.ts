@@ -0,0 +1,120 @@
+import type { CropperSelection as CropperSelectionElement } from 'cropperjs';
+import { describe, expect, it, vi } from 'vitest';
+import { exportCrop, getExportSize } from './export';
+
+const createSelection = (width: number, height: number) => {
+  const context = {
+    save: vi.fn(),
+    restore: vi.fn(),
+    setTransform: vi.fn(),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    arcTo: vi.fn(),
+    closePath: vi.fn(),
+    fill: vi.fn(),
+    fillRect: vi.fn(),
+  };
+  const canvas = {
+    getContext: vi.fn(() => context),
+    toBlob: vi.fn((callback: BlobCallback, type?: string) => {
+      callback(new Blob(['image'], { type }));
+    }),
+  };
+  const selection = {
+    width,
+    height,
+    $toCanvas: vi.fn(async () => canvas),
+  };
+  return {
+    canvas,
+    context,
+    selection: selection as unknown as CropperSelectionElement,
+    $toCanvas: selection.$toCanvas,
+  };
+};
+
+describe('getExportSize', () => {
+  it('keeps crops within the limits', () => {
+    expect(getExportSize({ width: 300, height: 200 })).toEqual({
+      width: 300,
+      height: 200,
+    });
+  });
+
+  it('scales large crops down', () => {
+    expect(
+      getExportSize({ width: 4000, height: 2000 }, { maxWidth: 1000 }),
+    ).toEqual({ width: 1000, height: 500 });
+  });
+
+  it('rejects or upscales undersized crops', () => {
+    expect(getExportSize({ width: 50, height: 100 }, { minWidth: 200 })).toBe(
+      null,
+    );
+    expect(
+      getExportSize(
+        { width: 50, height: 100 },
+        { minWidth: 200, upscale: true },
+      ),
+    ).toEqual({ width: 200, height: 400 });
+  });
+
+  it('rejects conflicting limits', () => {
+    expect(
+      getExportSize(
+        { width: 100, height: 100 },
+        { minWidth: 200, maxHeight: 150, upscale: true },
+      ),
+    ).toBe(null);
+  });
+});
+
+describe('exportCrop', () => {
+  it('encodes the crop to a Blob', async () => {
+    const { canvas, selection, $toCanvas } = createSelection(2000, 1000);
+    const blob = await exportCrop(selection, {
+      type: 'image/jpeg',
+      quality: 0.8,
+      maxWidth: 500,
+    });
+    expect(blob).toBeInstanceOf(Blob);
+    expect(blob.type).toBe('image/jpeg');
+    expect($toCanvas).toHaveBeenCalledWith(
+      expect.objectContaining({ width: 500, height: 250 }),
+    );
+    expect(canvas.toBlob).toHaveBeenCalledWith(
+      expect.any(Function),
+      'image/jpeg',
+      0.8,
+    );
+  });
+
+  it('resolves to a File when named', async () => {
+    const { selection } = createSelection(100, 100);
+    const file = await exportCrop(selection, { fileName: 'crop.png' });
+    expect(file).toBeInstanceOf(File);
+    expect(file.name).toBe('crop.png');
+  });
+
+  it('rejects undersized crops', async () => {
+    const { selection } = createSelection(10, 10);
+    await expect(exportCrop(selection, { minWidth: 100 })).rejects.toThrow();
+  });
+
+  it('masks shaped crops before filling them', async () => {
+    const { context, selection, $toCanvas } = createSelection(200, 100);
+    await exportCrop(selection, {
+      maxWidth: 100,
+      shape: { type: 'rounded', radius: 20 },
+      fillColor: '#fff',
+    });
+
+    expect($toCanvas).toHaveBeenCalledWith(
+      expect.objectContaining({ beforeDraw: undefined }),
+    );
+    // The radius follows the export scale
+    expect(context.moveTo).toHaveBeenCalledWith(10, 0);
+    expect(context.fill).toHaveBeenCalled();
+    expect(context.fillRect).toHaveBeenCalledWith(0, 0, 100, 50);
+  });
+});
@@ -0,0 +1,133 @@
+import type { CropperSelection as CropperSelectionElement } from 'cropperjs';
+import {
+  applyCropShape,
+  type CropShape,
+  isShapedCrop,
+  scaleCropShape,
+} from './shape';
+
+export interface ExportCropOptions {
+  /** The MIME type of the output, `image/png` by default. */
+  type?: string;
+  /** The encoder quality between 0 and 1, for lossy types. */
+  quality?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  minWidth?: number;
+  minHeight?: number;
+  /** Scale undersized crops up to the minimum size instead of rejecting. */
+  upscale?: boolean;
+  /** Painted behind the image, e.g. to flatten transparency for JPEG. */
+  fillColor?: string;
+  /**
+   * Masks the crop to a shape, transparent outside it unless `fillColor` is
+   * set. Rectangular by default.
+   */
+  shape?: CropShape;
+  /** Resolves to a `File` with this name instead of a `Blob`. */
+  fileName?: string;
+}
+
+export interface ExportSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Computes the output size for a crop, scaling it down to fit the maximum
+ * size and, with `upscale`, up to the minimum size. Returns `null` when the
+ * constraints cannot be met.
+ */
+export const getExportSize = (
+  { width, height }: ExportSize,
+  {
+    maxWidth = Infinity,
+    maxHeight = Infinity,
+    minWidth = 0,
+    minHeight = 0,
+    upscale = false,
+  }: ExportCropOptions = {},
+): ExportSize | null => {
+  if (!(width > 0 && height > 0)) return null;
+
+  let scale = Math.min(1, maxWidth / width, maxHeight / height);
+  if (width * scale < minWidth || height * scale < minHeight) {
+    if (!upscale) return null;
+    scale = Math.max(minWidth / width, minHeight / height);
+  }
+
+  const size = {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+  if (size.width > maxWidth || size.height > maxHeight) return null;
+
+  return size;
+};
+
+export const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type?: string,
+  quality?: number,
+) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to encode the cropped image'));
+        }
+      },
+      type,
+      quality,
+    );
+  });
+
+export function exportCrop(
+  selection: CropperSelectionElement,
+  options: ExportCropOptions & { fileName: string },
+): Promise<File>;
+export function exportCrop(
+  selection: CropperSelectionElement,
+  options?: ExportCropOptions,
+): Promise<Blob>;
+/**
+ * Renders the selected area and encodes it straight to a `Blob` or `File`.
+ */
+export async function exportCrop(
+  selection: CropperSelectionElement,
+  options: ExportCropOptions = {},
+): Promise<Blob | File> {
+  const { type = 'image/png', quality, fillColor, fileName, shape } = options;
+  const size = getExportSize(selection, options);
+  if (!size) {
+    throw new Error('The selection does not fit the export size limits');
+  }
+
+  // Shaped crops are filled after masking
+  const shaped = isShapedCrop(shape);
+  const canvas = await selection.$toCanvas({
+    ...size,
+    beforeDraw:
+      fillColor && !shaped
+        ? (context, { width, height }) => {
+            context.fillStyle = fillColor;
+            context.fillRect(0, 0, width, height);
+          }
+        : undefined,
+  });
+  const context = shaped ? canvas.getContext('2d') : null;
+  if (shape && context) {
+    applyCropShape(
+      context,
+      scaleCropShape(shape, size.width / selection.width),
+      size.width,
+      size.height,
+      fillColor,
+    );
+  }
+  const blob = await canvasToBlob(canvas, type, quality);
+
+  return fileName ? new File([blob], fileName, { type: blob.type }) : blob;
+}
@@ -0,0 +1,133 @@
+import type { CropperSelection as CropperSelectionElement } from 'cropperjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCropExporter } from './exporter';
+import { exportOriginalCrop, resolveOriginalCrop } from './original';
+
+vi.mock('./original', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./original')>()),
+  exportOriginalCrop: vi.fn(),
+  resolveOriginalCrop: vi.fn(),
+}));
+
+const selection = {} as CropperSelectionElement;
+const plan = { width: 200, height: 100, matrix: [1, 0, 0, 1, 0, 0] };
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  postMessage = vi.fn();
+  terminate = vi.fn();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+}
+
+describe('createCropExporter', () => {
+  beforeEach(() => {
+    vi.mocked(exportOriginalCrop).mockResolvedValue(new Blob(['main']));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+    FakeWorker.instances = [];
+  });
+
+  it('renders on the main thread without workers', async () => {
+    const exporter = createCropExporter();
+    const file = await exporter.export(selection, {
+      type: 'image/jpeg',
+      fileName: 'crop.jpg',
+    });
+
+    expect(file.name).toBe('crop.jpg');
+    expect(exportOriginalCrop).toHaveBeenCalledWith(selection, {
+      type: 'image/jpeg',
+    });
+  });
+
+  it('cancels the export in flight when another starts', async () => {
+    let finish = (_blob: Blob) => {};
+    vi.mocked(exportOriginalCrop).mockReturnValueOnce(
+      new Promise((resolve) => {
+        finish = resolve;
+      }),
+    );
+    const exporter = createCropExporter();
+
+    const first = exporter.export(selection);
+    const second = exporter.export(selection);
+    finish(new Blob(['stale']));
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(second).resolves.toBeInstanceOf(Blob);
+  });
+
+  describe('with workers', () => {
+    const bitmap = { close: vi.fn() };
+    const release = vi.fn();
+
+    beforeEach(() => {
+      vi.stubGlobal('Worker', FakeWorker);
+      vi.stubGlobal('OffscreenCanvas', class {});
+      vi.stubGlobal(
+        'createImageBitmap',
+        vi.fn(async () => bitmap),
+      );
+      vi.stubGlobal('URL', {
+        createObjectURL: vi.fn(() => 'blob:worker'),
+        revokeObjectURL: vi.fn(),
+      });
+      vi.mocked(resolveOriginalCrop).mockResolvedValue({
+        source: {} as CanvasImageSource,
+        plan: plan as never,
+        shape: 'ellipse',
+        release,
+      });
+    });
+
+    it('sends the bitmap and plan to the worker', async () => {
+      const exporter = createCropExporter();
+      const result = exporter.export(selection, { type: 'image/webp' });
+      await vi.waitFor(() => {
+        expect(FakeWorker.instances[0]?.postMessage).toHaveBeenCalled();
+      });
+
+      const [worker] = FakeWorker.instances;
+      const [request, transfer] = worker.postMessage.mock.calls[0];
+      expect(request).toMatchObject({
+        bitmap,
+        plan,
+        type: 'image/webp',
+        shape: 'ellipse',
+      });
+      expect(transfer).toEqual([bitmap]);
+      expect(release).toHaveBeenCalled();
+
+      const blob = new Blob(['worker']);
+      worker.onmessage?.({ data: { id: request.id, blob } });
+      await expect(result).resolves.toBe(blob);
+      expect(exportOriginalCrop).not.toHaveBeenCalled();
+
+      exporter.terminate();
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('falls back to the main thread when the worker fails', async () => {
+      const exporter = createCropExporter();
+      const result = exporter.export(selection);
+      await vi.waitFor(() => {
+        expect(FakeWorker.instances[0]?.postMessage).toHaveBeenCalled();
+      });
+
+      FakeWorker.instances[0].onerror?.();
+      await expect(result).resolves.toBeInstanceOf(Blob);
+      expect(exportOriginalCrop).toHaveBeenCalled();
+
+      await exporter.export(selection);
+      expect(FakeWorker.instances).toHaveLength(1);
+    });
+  });
+});
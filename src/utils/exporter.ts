@@ -0,0 +1,246 @@
+import type { CropperSelection as CropperSelectionElement } from 'cropperjs';
+import {
+  type CropPlan,
+  drawCropPlan,
+  type ExportOriginalCropOptions,
+  exportOriginalCrop,
+  resolveOriginalCrop,
+} from './original';
+import { applyCropShape, type CropShape } from './shape';
+
+export interface CropExporterOptions {
+  /**
+   * Renders in a Web Worker with `OffscreenCanvas` where both are available.
+   * `true` by default.
+   */
+  worker?: boolean;
+}
+
+export interface CropExporter {
+  /**
+   * Renders like `exportOriginalCrop`. Starting another export cancels this
+   * one, which then rejects with an `AbortError`.
+   */
+  export: {
+    (
+      selection: CropperSelectionElement,
+      options: ExportOriginalCropOptions & { fileName: string },
+    ): Promise<File>;
+    (
+      selection: CropperSelectionElement,
+      options?: ExportOriginalCropOptions,
+    ): Promise<Blob>;
+  };
+  /** Cancels the export in flight, if any. */
+  cancel: () => void;
+  /** Cancels the export in flight and stops the worker. */
+  terminate: () => void;
+}
+
+interface ExportRequest {
+  id: number;
+  bitmap?: ImageBitmap;
+  plan?: CropPlan;
+  type?: string;
+  quality?: number;
+  fillColor?: string;
+  shape?: CropShape;
+}
+
+type ExportResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+// Runs in the worker from its source, so it only uses its arguments
+const runExportWorker = (
+  draw: typeof drawCropPlan,
+  applyShape: typeof applyCropShape,
+) => {
+  // Requests without a bitmap only cancel
+  let latest = 0;
+  self.onmessage = async ({ data }: MessageEvent<ExportRequest>) => {
+    const { id, bitmap, plan, type, quality, fillColor, shape } = data;
+    latest = id;
+    if (!bitmap || !plan) return;
+
+    try {
+      const canvas = new OffscreenCanvas(plan.width, plan.height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Failed to render the cropped image');
+      }
+
+      draw(context, bitmap, plan);
+      applyShape(context, shape ?? 'rect', plan.width, plan.height, fillColor);
+      bitmap.close();
+      const blob = await canvas.convertToBlob({ type, quality });
+      if (id === latest) self.postMessage({ id, blob });
+    } catch (error) {
+      self.postMessage({
+        id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+};
+
+const createAbortError = () =>
+  new DOMException('The export was cancelled', 'AbortError');
+
+const canUseWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+/**
+ * Creates an exporter that renders crops off the main thread. The source is
+ * sent to a Web Worker as an `ImageBitmap` with the crop plan, drawn on an
+ * `OffscreenCanvas` and encoded there. Without worker support, or with
+ * `worker: false`, it renders on the main thread instead.
+ */
+export const createCropExporter = ({
+  worker: useWorker = true,
+}: CropExporterOptions = {}): CropExporter => {
+  let worker: Worker | null = null;
+  let workerUrl: string | null = null;
+  // Set once the worker fails to start, e.g. when a CSP blocks it
+  let workerFailed = !useWorker;
+  let lastId = 0;
+  // The export in flight in the worker
+  let pending: {
+    id: number;
+    resolve: (blob: Blob) => void;
+    reject: (reason: unknown) => void;
+    renderOnMainThread: () => void;
+  } | null = null;
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+    if (workerUrl) URL.revokeObjectURL(workerUrl);
+    workerUrl = null;
+  };
+
+  const getWorker = () => {
+    if (worker) return worker;
+
+    workerUrl = URL.createObjectURL(
+      new Blob([`(${runExportWorker})(${drawCropPlan}, ${applyCropShape})`], {
+        type: 'text/javascript',
+      }),
+    );
+    worker = new Worker(workerUrl);
+    worker.onmessage = ({ data }: MessageEvent<ExportResponse>) => {
+      if (pending?.id !== data.id) return;
+
+      const { resolve, reject } = pending;
+      pending = null;
+      if ('blob' in data) {
+        resolve(data.blob);
+      } else {
+        reject(new Error(data.error));
+      }
+    };
+    worker.onerror = () => {
+      workerFailed = true;
+      stopWorker();
+      const failed = pending;
+      pending = null;
+      failed?.renderOnMainThread();
+    };
+    return worker;
+  };
+
+  const cancel = () => {
+    lastId += 1;
+    worker?.postMessage({ id: lastId } satisfies ExportRequest);
+    pending?.reject(createAbortError());
+    pending = null;
+  };
+
+  const renderOnMainThread = async (
+    id: number,
+    selection: CropperSelectionElement,
+    options: ExportOriginalCropOptions,
+  ) => {
+    const blob = await exportOriginalCrop(selection, options);
+    if (id !== lastId) throw createAbortError();
+    return blob;
+  };
+
+  const renderInWorker = async (
+    id: number,
+    selection: CropperSelectionElement,
+    options: ExportOriginalCropOptions,
+  ) => {
+    const { source, plan, shape, release } = await resolveOriginalCrop(
+      selection,
+      options,
+    );
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(source);
+    } finally {
+      release();
+    }
+    if (id !== lastId) {
+      bitmap.close();
+      throw createAbortError();
+    }
+
+    return new Promise<Blob>((resolve, reject) => {
+      const { type = 'image/png', quality, fillColor } = options;
+      pending = {
+        id,
+        resolve,
+        reject,
+        renderOnMainThread: () => {
+          renderOnMainThread(id, selection, options).then(resolve, reject);
+        },
+      };
+      try {
+        getWorker().postMessage(
+          {
+            id,
+            bitmap,
+            plan,
+            type,
+            quality,
+            fillColor,
+            shape,
+          } satisfies ExportRequest,
+          [bitmap],
+        );
+      } catch {
+        workerFailed = true;
+        stopWorker();
+        pending = null;
+        bitmap.close();
+        renderOnMainThread(id, selection, options).then(resolve, reject);
+      }
+    });
+  };
+
+  const exportCrop = async (
+    selection: CropperSelectionElement,
+    { fileName, ...options }: ExportOriginalCropOptions = {},
+  ): Promise<Blob | File> => {
+    cancel();
+    const id = lastId;
+    const blob =
+      !workerFailed && canUseWorker()
+        ? await renderInWorker(id, selection, options)
+        : await renderOnMainThread(id, selection, options);
+
+    return fileName ? new File([blob], fileName, { type: blob.type }) : blob;
+  };
+
+  return {
+    export: exportCrop as CropExporter['export'],
+    cancel,
+    terminate: () => {
+      cancel();
+      stopWorker();
+    },
+  };
+};
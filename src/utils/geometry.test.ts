@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clampRectSize,
+  clampRectToPolygon,
+  coverRect,
+  getImagePolygon,
+  isRectInPolygon,
+  transformPoint,
+} from './geometry';
+import { composeTransform } from './transform';
+
+describe('transformPoint', () => {
+  it('transforms around the center of the box', () => {
+    const point = transformPoint([-1, 0, 0, 1, 0, 0], 100, 50, { x: 0, y: 0 });
+    expect(point).toEqual({ x: 100, y: 0 });
+  });
+});
+
+describe('isRectInPolygon', () => {
+  const diamond = getImagePolygon(composeTransform({ rotate: 45 }), 100, 100);
+
+  it('rejects rects that only fit the bounding box', () => {
+    expect(
+      isRectInPolygon({ x: 0, y: 0, width: 100, height: 100 }, diamond),
+    ).toBe(false);
+  });
+
+  it('accepts rects inside the rotated image', () => {
+    expect(
+      isRectInPolygon({ x: 30, y: 30, width: 40, height: 40 }, diamond),
+    ).toBe(true);
+  });
+});
+
+describe('clampRectToPolygon', () => {
+  const square = getImagePolygon([1, 0, 0, 1, 0, 0], 200, 100);
+
+  it('stops moves at the edge', () => {
+    const clamped = clampRectToPolygon(
+      { x: 100, y: 0, width: 50, height: 50 },
+      { x: 200, y: 0, width: 50, height: 50 },
+      square,
+    );
+    expect(clamped?.x).toBeCloseTo(150);
+    expect(clamped?.width).toBe(50);
+  });
+
+  it('stops resizes at the edge, keeping the aspect ratio', () => {
+    const clamped = clampRectToPolygon(
+      { x: 100, y: 0, width: 40, height: 20 },
+      { x: 100, y: 0, width: 200, height: 100 },
+      square,
+    );
+    expect(clamped?.width).toBeCloseTo(100);
+    expect(clamped?.height).toBeCloseTo(50);
+  });
+
+  it('shrinks selections that are already outside', () => {
+    const clamped = clampRectToPolygon(
+      { x: -50, y: 0, width: 300, height: 100 },
+      { x: -40, y: 0, width: 300, height: 100 },
+      square,
+    );
+    expect(clamped && isRectInPolygon(clamped, square)).toBe(true);
+  });
+});
+
+describe('coverRect', () => {
+  const layout = { width: 200, height: 100, offset: { x: 0, y: 0 } };
+
+  it('keeps matrices that already cover the rect', () => {
+    expect(
+      coverRect([1, 0, 0, 1, 0, 0], layout, {
+        x: 0,
+        y: 0,
+        width: 100,
+        height: 100,
+      }),
+    ).toEqual([1, 0, 0, 1, 0, 0]);
+  });
+
+  it('pans to close gaps', () => {
+    const [, , , , e, f] = coverRect([1, 0, 0, 1, 0, 0], layout, {
+      x: 150,
+      y: 0,
+      width: 100,
+      height: 50,
+    });
+    expect(e).toBeCloseTo(50);
+    expect(f).toBeCloseTo(0);
+  });
+
+  it('zooms in to keep a rotated image covering the rect', () => {
+    const rect = { x: 0, y: 0, width: 200, height: 100 };
+    const matrix = coverRect(composeTransform({ rotate: 90 }), layout, rect);
+    expect(Math.hypot(matrix[0], matrix[1])).toBeCloseTo(2);
+
+    // Shrink slightly to allow for rounding at the edges
+    const inner = { x: 0.01, y: 0.01, width: 199.98, height: 99.98 };
+    expect(isRectInPolygon(inner, getImagePolygon(matrix, 200, 100))).toBe(
+      true,
+    );
+  });
+});
+
+describe('clampRectSize', () => {
+  const previous = { x: 100, y: 100, width: 50, height: 50 };
+
+  it('keeps the edges the resize kept', () => {
+    expect(
+      clampRectSize(
+        previous,
+        { x: 0, y: 100, width: 150, height: 80 },
+        { maxWidth: 100 },
+      ),
+    ).toEqual({ x: 50, y: 100, width: 100, height: 80 });
+  });
+
+  it('scales both sides with an aspect ratio', () => {
+    expect(
+      clampRectSize(
+        previous,
+        { x: 110, y: 110, width: 30, height: 30 },
+        { minHeight: 40 },
+        1,
+      ),
+    ).toEqual({ x: 105, y: 105, width: 40, height: 40 });
+  });
+
+  it('leaves cleared selections alone', () => {
+    const cleared = { x: 0, y: 0, width: 0, height: 0 };
+    expect(clampRectSize(previous, cleared, { minWidth: 10 })).toBe(cleared);
+  });
+
+  it('rejects limits that conflict with the aspect ratio', () => {
+    expect(
+      clampRectSize(
+        previous,
+        { x: 100, y: 100, width: 60, height: 60 },
+        { minWidth: 80, maxHeight: 70 },
+        1,
+      ),
+    ).toBe(null);
+  });
+});
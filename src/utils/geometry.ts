@@ -0,0 +1,363 @@
+import type { CropperImage as CropperImageElement } from 'cropperjs';
+import type { CropperSelectionValue } from '../events';
+import type { CropperImageMatrix } from './transform';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Maps a point in the image's untransformed box to canvas coordinates. The
+ * matrix is applied around the center of the box, like CSS `transform-origin`.
+ */
+export const transformPoint = (
+  [a, b, c, d, e, f]: readonly number[],
+  width: number,
+  height: number,
+  { x, y }: Point,
+): Point => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const dx = x - centerX;
+  const dy = y - centerY;
+
+  return {
+    x: centerX + a * dx + c * dy + e,
+    y: centerY + b * dx + d * dy + f,
+  };
+};
+
+/**
+ * Returns the corners of a transformed image box, in canvas coordinates.
+ */
+export const getImagePolygon = (
+  matrix: readonly number[],
+  width: number,
+  height: number,
+  offset: Point = { x: 0, y: 0 },
+): Point[] =>
+  [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ].map((corner) => {
+    const point = transformPoint(matrix, width, height, corner);
+    return { x: point.x + offset.x, y: point.y + offset.y };
+  });
+
+export const getRectCorners = ({
+  x,
+  y,
+  width,
+  height,
+}: CropperSelectionValue): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+// Tolerance for rounding in element geometry
+const EPSILON = 1e-6;
+
+/**
+ * Checks whether a point lies inside a convex polygon, in either winding.
+ */
+export const isPointInPolygon = (point: Point, polygon: Point[]) => {
+  let sign = 0;
+  for (let i = 0; i < polygon.length; i += 1) {
+    const start = polygon[i];
+    const end = polygon[(i + 1) % polygon.length];
+    const cross =
+      (end.x - start.x) * (point.y - start.y) -
+      (end.y - start.y) * (point.x - start.x);
+
+    if (Math.abs(cross) <= EPSILON) continue;
+    if (sign === 0) {
+      sign = Math.sign(cross);
+    } else if (Math.sign(cross) !== sign) {
+      return false;
+    }
+  }
+  return sign !== 0;
+};
+
+export const isRectInPolygon = (
+  rect: CropperSelectionValue,
+  polygon: Point[],
+) => getRectCorners(rect).every((corner) => isPointInPolygon(corner, polygon));
+
+const lerpRect = (
+  from: CropperSelectionValue,
+  to: CropperSelectionValue,
+  t: number,
+): CropperSelectionValue => ({
+  x: from.x + (to.x - from.x) * t,
+  y: from.y + (to.y - from.y) * t,
+  width: from.width + (to.width - from.width) * t,
+  height: from.height + (to.height - from.height) * t,
+});
+
+// Finds the largest `t` in [0, 1] for which the test passes, assuming it
+// passes at 0
+const searchLargest = (test: (t: number) => boolean) => {
+  if (test(1)) return 1;
+
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 24; i += 1) {
+    const middle = (low + high) / 2;
+    if (test(middle)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Clamps a selection change so the result stays inside the polygon. Moves
+ * stop at the edge and resizes stop growing, keeping the aspect ratio. When
+ * the previous selection is already outside, the next one is shrunk around
+ * its center instead. Returns `null` when nothing fits.
+ */
+export const clampRectToPolygon = (
+  previous: CropperSelectionValue,
+  next: CropperSelectionValue,
+  polygon: Point[],
+): CropperSelectionValue | null => {
+  if (isRectInPolygon(next, polygon)) return next;
+
+  if (isRectInPolygon(previous, polygon)) {
+    const t = searchLargest((value) =>
+      isRectInPolygon(lerpRect(previous, next, value), polygon),
+    );
+    return lerpRect(previous, next, t);
+  }
+
+  const center = {
+    x: next.x + next.width / 2,
+    y: next.y + next.height / 2,
+    width: 0,
+    height: 0,
+  };
+  if (!isPointInPolygon(center, polygon)) return null;
+
+  const t = searchLargest((value) =>
+    isRectInPolygon(lerpRect(center, next, value), polygon),
+  );
+  return t > 0 ? lerpRect(center, next, t) : null;
+};
+
+export interface SizeLimits {
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+}
+
+// Moves a resized span so the edge the change kept stays put, or else its
+// center
+const alignSpan = (
+  start: number,
+  size: number,
+  previousStart: number,
+  previousSize: number,
+  nextSize: number,
+) => {
+  if (Math.abs(start - previousStart) <= EPSILON) return start;
+  if (Math.abs(start + size - (previousStart + previousSize)) <= EPSILON) {
+    return start + size - nextSize;
+  }
+  return start + (size - nextSize) / 2;
+};
+
+/**
+ * Clamps a selection change to the size limits, keeping the edges the change
+ * kept in place. With an aspect ratio, both sides are scaled together. Empty
+ * rects, which mark a cleared selection, are left alone. Returns `null` when
+ * no size fits.
+ */
+export const clampRectSize = (
+  previous: CropperSelectionValue,
+  next: CropperSelectionValue,
+  {
+    minWidth = 0,
+    minHeight = 0,
+    maxWidth = Infinity,
+    maxHeight = Infinity,
+  }: SizeLimits,
+  aspectRatio?: number,
+): CropperSelectionValue | null => {
+  const { x, y, width, height } = next;
+  if (
+    (!width && !height) ||
+    (width >= minWidth - EPSILON &&
+      width <= maxWidth + EPSILON &&
+      height >= minHeight - EPSILON &&
+      height <= maxHeight + EPSILON)
+  ) {
+    return next;
+  }
+
+  let nextWidth: number;
+  let nextHeight: number;
+  if (aspectRatio && aspectRatio > 0 && width && height) {
+    const low = Math.max(minWidth / width, minHeight / height);
+    const high = Math.min(maxWidth / width, maxHeight / height);
+    if (low > high) return null;
+
+    const scale = Math.min(Math.max(1, low), high);
+    nextWidth = width * scale;
+    nextHeight = height * scale;
+  } else {
+    if (minWidth > maxWidth || minHeight > maxHeight) return null;
+
+    nextWidth = Math.min(Math.max(width, minWidth), maxWidth);
+    nextHeight = Math.min(Math.max(height, minHeight), maxHeight);
+  }
+
+  return {
+    x: alignSpan(x, width, previous.x, previous.width, nextWidth),
+    y: alignSpan(y, height, previous.y, previous.height, nextHeight),
+    width: nextWidth,
+    height: nextHeight,
+  };
+};
+
+export interface ImageLayout {
+  /** The untransformed size of the image box. */
+  width: number;
+  height: number;
+  /** Where the untransformed box sits on the canvas. */
+  offset: Point;
+}
+
+/**
+ * Measures an image inside its canvas. Returns `null` until it has a size.
+ */
+export const getImageLayout = (
+  image: CropperImageElement,
+): ImageLayout | null => {
+  const canvas = image.parentElement;
+  const { offsetWidth: width, offsetHeight: height } = image;
+  if (!canvas || !width || !height) {
+    return null;
+  }
+
+  // The on-screen box is the hull of the transformed outline
+  const polygon = getImagePolygon(image.$getTransform(), width, height);
+  const canvasRect = canvas.getBoundingClientRect();
+  const imageRect = image.getBoundingClientRect();
+  // Client rects include any CSS scaling of the canvas
+  const scale =
+    canvas.offsetWidth && canvasRect.width
+      ? canvasRect.width / canvas.offsetWidth
+      : 1;
+
+  return {
+    width,
+    height,
+    offset: {
+      x:
+        (imageRect.left - canvasRect.left) / scale -
+        Math.min(...polygon.map((p) => p.x)),
+      y:
+        (imageRect.top - canvasRect.top) / scale -
+        Math.min(...polygon.map((p) => p.y)),
+    },
+  };
+};
+
+/**
+ * Adjusts a matrix so the image covers the rect: first zooms in around the
+ * rect's center until the rect fits the image at the current rotation, then
+ * pans the least amount needed to close any gap.
+ */
+export const coverRect = (
+  matrix: readonly number[],
+  { width, height, offset }: ImageLayout,
+  rect: CropperSelectionValue,
+): CropperImageMatrix => {
+  const [a, b, c, d, e, f] = matrix;
+  const determinant = a * d - b * c;
+  if (!determinant) return [a, b, c, d, e, f];
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const corners = getRectCorners(rect);
+
+  // Selection corners in the image's local, unscaled axes
+  const toLocal = (
+    [la, lb, lc, ld]: readonly number[],
+    tx: number,
+    ty: number,
+  ) => {
+    const det = la * ld - lb * lc;
+    return corners.map(({ x, y }) => {
+      const dx = x - offset.x - centerX - tx;
+      const dy = y - offset.y - centerY - ty;
+      return {
+        x: centerX + (ld * dx - lc * dy) / det,
+        y: centerY + (la * dy - lb * dx) / det,
+      };
+    });
+  };
+
+  // Zoom in around the rect's center
+  const local = toLocal(matrix, e, f);
+  const extentX =
+    Math.max(...local.map((p) => p.x)) - Math.min(...local.map((p) => p.x));
+  const extentY =
+    Math.max(...local.map((p) => p.y)) - Math.min(...local.map((p) => p.y));
+  const scale = Math.max(1, extentX / width, extentY / height);
+  const pivotX = rect.x + rect.width / 2 - offset.x;
+  const pivotY = rect.y + rect.height / 2 - offset.y;
+  const linear = [a * scale, b * scale, c * scale, d * scale];
+  let tx = scale * (centerX + e - pivotX) + pivotX - centerX;
+  let ty = scale * (centerY + f - pivotY) + pivotY - centerY;
+
+  // Pan along the image axes until every corner is on the image
+  const scaled = toLocal(linear, tx, ty);
+  const clampShift = (values: number[], size: number) => {
+    const low = Math.max(...values) - size;
+    const high = Math.min(...values);
+    return Math.min(Math.max(0, low), high);
+  };
+  const shiftX = clampShift(
+    scaled.map((p) => p.x),
+    width,
+  );
+  const shiftY = clampShift(
+    scaled.map((p) => p.y),
+    height,
+  );
+  const [sa, sb, sc, sd] = linear;
+  tx += sa * shiftX + sc * shiftY;
+  ty += sb * shiftX + sd * shiftY;
+
+  return [sa, sb, sc, sd, tx, ty];
+};
+
+/**
+ * Returns how many canvas pixels one natural image pixel spans along each
+ * canvas axis, or `null` until the image has loaded.
+ */
+export const getNaturalScale = (image: CropperImageElement): Point | null => {
+  const { offsetWidth: width, offsetHeight: height } = image;
+  const { naturalWidth, naturalHeight } = image.$image;
+  const [a, b, c, d] = image.$getTransform();
+  const determinant = Math.abs(a * d - b * c);
+  if (!width || !height || !naturalWidth || !naturalHeight || !determinant) {
+    return null;
+  }
+
+  // A canvas pixel along x spans `hypot(b, d) / determinant` box pixels
+  return {
+    x: (determinant / Math.hypot(b, d)) * (width / naturalWidth),
+    y: (determinant / Math.hypot(a, c)) * (height / naturalHeight),
+  };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { canvasToNaturalRect, naturalToCanvasRect } from './natural';
+import { composeTransform } from './transform';
+
+const layout = { width: 200, height: 100, offset: { x: 10, y: 20 } };
+const natural = { naturalWidth: 400, naturalHeight: 200 };
+
+const expectRectCloseTo = (
+  actual: { x: number; y: number; width: number; height: number },
+  expected: typeof actual,
+) => {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+  expect(actual.width).toBeCloseTo(expected.width);
+  expect(actual.height).toBeCloseTo(expected.height);
+};
+
+describe('canvasToNaturalRect', () => {
+  it('scales canvas pixels to natural pixels', () => {
+    expect(
+      canvasToNaturalRect(
+        { x: 10, y: 20, width: 100, height: 50 },
+        [1, 0, 0, 1, 0, 0],
+        layout,
+        natural,
+      ),
+    ).toEqual({ x: 0, y: 0, width: 200, height: 100 });
+  });
+
+  it('follows flips and zoom', () => {
+    expectRectCloseTo(
+      canvasToNaturalRect(
+        { x: 10, y: 20, width: 100, height: 50 },
+        composeTransform({ scaleX: -2, scaleY: 2 }),
+        layout,
+        natural,
+      ),
+      { x: 200, y: 50, width: 100, height: 50 },
+    );
+  });
+
+  it('follows rotation', () => {
+    // Rotated 90°, the left canvas half is the bottom of the image
+    expectRectCloseTo(
+      canvasToNaturalRect(
+        { x: 60, y: -30, width: 50, height: 200 },
+        composeTransform({ rotate: 90 }),
+        layout,
+        natural,
+      ),
+      { x: 0, y: 100, width: 400, height: 100 },
+    );
+  });
+});
+
+describe('naturalToCanvasRect', () => {
+  it('inverts canvasToNaturalRect', () => {
+    const matrix = composeTransform({ rotate: 90, scaleX: 1.5, translateX: 7 });
+    const rect = { x: 40, y: 30, width: 80, height: 60 };
+    expectRectCloseTo(
+      naturalToCanvasRect(
+        canvasToNaturalRect(rect, matrix, layout, natural),
+        matrix,
+        layout,
+        natural,
+      ),
+      rect,
+    );
+  });
+});
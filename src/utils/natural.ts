@@ -0,0 +1,142 @@
+import type { CropperImage as CropperImageElement } from 'cropperjs';
+import type { CropperSelectionValue } from '../events';
+import {
+  getImageLayout,
+  getRectCorners,
+  type ImageLayout,
+  type Point,
+  transformPoint,
+} from './geometry';
+
+export interface NaturalSize {
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+const getBoundingRect = (points: Point[]): CropperSelectionValue => {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Maps a canvas point back into the image's untransformed box
+const invertPoint = (
+  [a, b, c, d, e, f]: readonly number[],
+  width: number,
+  height: number,
+  { x, y }: Point,
+): Point => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const determinant = a * d - b * c;
+  const dx = x - centerX - e;
+  const dy = y - centerY - f;
+
+  return {
+    x: centerX + (d * dx - c * dy) / determinant,
+    y: centerY + (a * dy - b * dx) / determinant,
+  };
+};
+
+/**
+ * Maps a rect in canvas pixels to pixels of the natural image. For images
+ * rotated by other than a multiple of 90°, the result is the bounding box of
+ * the mapped rect.
+ */
+export const canvasToNaturalRect = (
+  rect: CropperSelectionValue,
+  matrix: readonly number[],
+  { width, height, offset }: ImageLayout,
+  { naturalWidth, naturalHeight }: NaturalSize,
+): CropperSelectionValue =>
+  getBoundingRect(
+    getRectCorners(rect).map((corner) => {
+      const point = invertPoint(matrix, width, height, {
+        x: corner.x - offset.x,
+        y: corner.y - offset.y,
+      });
+      return {
+        x: (point.x * naturalWidth) / width,
+        y: (point.y * naturalHeight) / height,
+      };
+    }),
+  );
+
+/**
+ * Maps a rect in natural image pixels to canvas pixels, the inverse of
+ * `canvasToNaturalRect`.
+ */
+export const naturalToCanvasRect = (
+  rect: CropperSelectionValue,
+  matrix: readonly number[],
+  { width, height, offset }: ImageLayout,
+  { naturalWidth, naturalHeight }: NaturalSize,
+): CropperSelectionValue =>
+  getBoundingRect(
+    getRectCorners(rect).map((corner) => {
+      const point = transformPoint(matrix, width, height, {
+        x: (corner.x * width) / naturalWidth,
+        y: (corner.y * height) / naturalHeight,
+      });
+      return { x: point.x + offset.x, y: point.y + offset.y };
+    }),
+  );
+
+// Measures what the mapping needs, or returns `null` until the image loads
+const measure = (image: CropperImageElement) => {
+  const layout = getImageLayout(image);
+  const { naturalWidth, naturalHeight } = image.$image;
+  const matrix = image.$getTransform();
+  if (
+    !layout ||
+    !naturalWidth ||
+    !naturalHeight ||
+    !(matrix[0] * matrix[3] - matrix[1] * matrix[2])
+  ) {
+    return null;
+  }
+
+  return { layout, matrix, natural: { naturalWidth, naturalHeight } };
+};
+
+/**
+ * Maps a selection on the image's canvas to natural image pixels, using the
+ * image's current transform. Returns `null` until the image has loaded.
+ */
+export const toNaturalRect = (
+  image: CropperImageElement,
+  rect: CropperSelectionValue,
+) => {
+  const measured = measure(image);
+  return measured
+    ? canvasToNaturalRect(
+        rect,
+        measured.matrix,
+        measured.layout,
+        measured.natural,
+      )
+    : null;
+};
+
+/**
+ * Maps a rect in natural image pixels to the image's canvas, e.g. to restore
+ * a selection saved with `toNaturalRect`. Returns `null` until the image has
+ * loaded.
+ */
+export const fromNaturalRect = (
+  image: CropperImageElement,
+  rect: CropperSelectionValue,
+) => {
+  const measured = measure(image);
+  return measured
+    ? naturalToCanvasRect(
+        rect,
+        measured.matrix,
+        measured.layout,
+        measured.natural,
+      )
+    : null;
+};
@@ -0,0 +1,144 @@
+import type { CropperSelection as CropperSelectionElement } from 'cropperjs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { exportOriginalCrop, getCropPlan } from './original';
+import { composeTransform } from './transform';
+
+const layout = { width: 200, height: 100, offset: { x: 10, y: 20 } };
+const natural = { naturalWidth: 400, naturalHeight: 200 };
+
+const expectMatrixCloseTo = (actual: number[], expected: number[]) => {
+  actual.forEach((value, index) => {
+    expect(value).toBeCloseTo(expected[index]);
+  });
+};
+
+describe('getCropPlan', () => {
+  it('crops at the natural resolution', () => {
+    expect(
+      getCropPlan(
+        { x: 60, y: 45, width: 100, height: 50 },
+        [1, 0, 0, 1, 0, 0],
+        layout,
+        natural,
+      ),
+    ).toEqual({ width: 200, height: 100, matrix: [1, 0, 0, 1, -100, -50] });
+  });
+
+  it('is independent of the shown canvas size', () => {
+    const plan = getCropPlan(
+      { x: 30, y: 22.5, width: 50, height: 25 },
+      [1, 0, 0, 1, 0, 0],
+      { width: 100, height: 50, offset: { x: 5, y: 10 } },
+      natural,
+    );
+
+    expect(plan).toEqual({
+      width: 200,
+      height: 100,
+      matrix: [1, 0, 0, 1, -100, -50],
+    });
+  });
+
+  it('follows zoom and rotation, and scales to a width', () => {
+    const plan = getCropPlan(
+      { x: 60, y: 45, width: 100, height: 50 },
+      composeTransform({ rotate: 90, scaleX: 2, scaleY: 2 }),
+      layout,
+      natural,
+      { width: 50 },
+    );
+
+    expect(plan).toMatchObject({ width: 50, height: 25 });
+    // Zoomed in twice, the crop spans half as many natural pixels
+    expectMatrixCloseTo(plan?.matrix ?? [], [0, 0.5, -0.5, 0, 75, -87.5]);
+  });
+
+  it('draws from a larger source through its matrix', () => {
+    const plan = getCropPlan(
+      { x: 60, y: 45, width: 100, height: 50 },
+      [1, 0, 0, 1, 0, 0],
+      layout,
+      natural,
+      { sourceMatrix: [0.25, 0, 0, 0.25, 0, 0] },
+    );
+
+    expect(plan).toEqual({
+      width: 800,
+      height: 400,
+      matrix: [1, 0, 0, 1, -400, -200],
+    });
+  });
+
+  it('applies the output size limits', () => {
+    const rect = { x: 60, y: 45, width: 100, height: 50 };
+
+    expect(
+      getCropPlan(rect, [1, 0, 0, 1, 0, 0], layout, natural, { maxWidth: 100 }),
+    ).toMatchObject({ width: 100, height: 50 });
+    expect(
+      getCropPlan(rect, [1, 0, 0, 1, 0, 0], layout, natural, {
+        minWidth: 1000,
+      }),
+    ).toBe(null);
+  });
+});
+
+describe('exportOriginalCrop', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('renders the crop from the image source', async () => {
+    const context = {
+      save: vi.fn(),
+      restore: vi.fn(),
+      setTransform: vi.fn(),
+      drawImage: vi.fn(),
+      fillRect: vi.fn(),
+    };
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+      context as unknown as CanvasRenderingContext2D,
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(
+      function (this: HTMLCanvasElement, callback, type) {
+        callback(new Blob([`${this.width}x${this.height}`], { type }));
+      },
+    );
+
+    const rect = (left: number, top: number) =>
+      ({ left, top, width: 0, height: 0 }) as DOMRect;
+    const $image = { naturalWidth: 400, naturalHeight: 200 };
+    const image = {
+      offsetWidth: 200,
+      offsetHeight: 100,
+      parentElement: {
+        offsetWidth: 0,
+        getBoundingClientRect: () => rect(0, 0),
+      },
+      getBoundingClientRect: () => rect(10, 20),
+      $image,
+      $getTransform: () => [1, 0, 0, 1, 0, 0],
+    };
+    const selection = {
+      localName: 'cropper-selection',
+      parentElement: { querySelector: () => image },
+      x: 60,
+      y: 45,
+      width: 100,
+      height: 50,
+    } as unknown as CropperSelectionElement;
+
+    const file = await exportOriginalCrop(selection, {
+      type: 'image/jpeg',
+      fillColor: '#fff',
+      fileName: 'crop.jpg',
+    });
+
+    expect(file.name).toBe('crop.jpg');
+    expect(file.type).toBe('image/jpeg');
+    expect(file.size).toBe('200x100'.length);
+    expect(context.fillRect).toHaveBeenCalledWith(0, 0, 200, 100);
+    expect(context.setTransform).toHaveBeenCalledWith(1, 0, 0, 1, -100, -50);
+    expect(context.drawImage).toHaveBeenCalledWith($image, 0, 0);
+  });
+});
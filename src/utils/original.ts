@@ -0,0 +1,258 @@
+import type {
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
+import { getRelatedTagName } from '../elements';
+import type { CropperSelectionValue } from '../events';
+import {
+  canvasToBlob,
+  type ExportCropOptions,
+  type ExportSize,
+  getExportSize,
+} from './export';
+import { getImageLayout, type ImageLayout } from './geometry';
+import type { NaturalSize } from './natural';
+import { getOriginalMatrix, type PreparedImage } from './prepare';
+import { applyCropShape, type CropShape, scaleCropShape } from './shape';
+import {
+  type CropperImageMatrix,
+  IDENTITY_MATRIX,
+  multiplyTransform,
+} from './transform';
+
+export interface CropPlanOptions extends ExportCropOptions {
+  /**
+   * The output width. The crop keeps the source's native resolution by
+   * default, one source pixel per output pixel.
+   */
+  width?: number;
+  /**
+   * Maps source pixels to natural pixels of the displayed image, when the
+   * source isn't the displayed image itself.
+   */
+  sourceMatrix?: readonly number[];
+}
+
+/** How to draw a source to render a crop. */
+export interface CropPlan extends ExportSize {
+  /** Maps source pixels to output pixels. */
+  matrix: CropperImageMatrix;
+}
+
+export interface ExportOriginalCropOptions
+  extends Omit<CropPlanOptions, 'sourceMatrix'> {
+  /**
+   * The image to draw from, e.g. a full-resolution copy of the displayed
+   * image. Defaults to the loaded `CropperImage` source.
+   */
+  source?: CanvasImageSource;
+  /** Draws from the original of a prepared image instead. */
+  prepared?: PreparedImage;
+}
+
+/**
+ * Plans a crop in natural pixels: maps the selection through the image's
+ * transform and layout to the source, and sizes the output by the source's
+ * resolution or `width`. The size doesn't depend on how large the canvas is
+ * shown. Returns `null` when the output size limits cannot be met.
+ */
+export const getCropPlan = (
+  rect: CropperSelectionValue,
+  [a, b, c, d, e, f]: readonly number[],
+  { width, height, offset }: ImageLayout,
+  { naturalWidth, naturalHeight }: NaturalSize,
+  { width: outputWidth, sourceMatrix, ...options }: CropPlanOptions = {},
+): CropPlan | null => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  // Source pixels to canvas pixels, around the box center like the image
+  const sourceToCanvas = [
+    [1, 0, 0, 1, offset.x + centerX + e, offset.y + centerY + f],
+    [a, b, c, d, 0, 0],
+    [1, 0, 0, 1, -centerX, -centerY],
+    [width / naturalWidth, 0, 0, height / naturalHeight, 0, 0],
+    sourceMatrix ?? IDENTITY_MATRIX,
+  ].reduce(multiplyTransform);
+  const [sa, sb, sc, sd] = sourceToCanvas;
+  const determinant = Math.abs(sa * sd - sb * sc);
+  if (!determinant || !(rect.width > 0 && rect.height > 0)) return null;
+
+  // Output pixels per canvas pixel, for one source pixel per output pixel
+  const nativeScale = 1 / Math.sqrt(determinant);
+  const size = getExportSize(
+    outputWidth
+      ? {
+          width: outputWidth,
+          height: Math.round((outputWidth * rect.height) / rect.width),
+        }
+      : {
+          width: Math.round(rect.width * nativeScale),
+          height: Math.round(rect.height * nativeScale),
+        },
+    options,
+  );
+  if (!size) return null;
+
+  return {
+    ...size,
+    matrix: [
+      [size.width / rect.width, 0, 0, size.height / rect.height, 0, 0],
+      [1, 0, 0, 1, -rect.x, -rect.y],
+      sourceToCanvas,
+    ].reduce(multiplyTransform) as CropperImageMatrix,
+  };
+};
+
+/**
+ * Paints a planned crop, over `fillColor` if given. Export workers run this
+ * function from its source, so it only uses its arguments.
+ */
+export const drawCropPlan = (
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource,
+  { width, height, matrix }: CropPlan,
+  fillColor?: string,
+) => {
+  if (fillColor) {
+    context.fillStyle = fillColor;
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.setTransform(...matrix);
+  context.drawImage(source, 0, 0);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+// Returns the pixel size of a drawable source
+const getSourceSize = (source: CanvasImageSource): ExportSize => {
+  if (source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  if (source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if ('width' in source && typeof source.width === 'number') {
+    return { width: source.width, height: source.height as number };
+  }
+  throw new Error('The export source has no known size');
+};
+
+/** A planned crop and the source it draws from. */
+export interface OriginalCrop {
+  source: CanvasImageSource;
+  plan: CropPlan;
+  /** The crop shape, in output pixels. */
+  shape: CropShape;
+  /** Frees the decoded source, if one was created. */
+  release: () => void;
+}
+
+/**
+ * Finds the source and plans the crop for the selection, as
+ * `exportOriginalCrop` does before drawing. Call `release` once drawn.
+ */
+export const resolveOriginalCrop = async (
+  selection: CropperSelectionElement,
+  {
+    source,
+    prepared,
+    shape = 'rect',
+    ...planOptions
+  }: ExportOriginalCropOptions = {},
+): Promise<OriginalCrop> => {
+  const image = selection.parentElement?.querySelector(
+    getRelatedTagName(selection, 'image'),
+  ) as CropperImageElement | null;
+  const layout = image && getImageLayout(image);
+  const { naturalWidth = 0, naturalHeight = 0 } = image?.$image ?? {};
+  if (!image || !layout || !naturalWidth || !naturalHeight) {
+    throw new Error('The image has not loaded');
+  }
+
+  let sourceMatrix: readonly number[] = IDENTITY_MATRIX;
+  if (prepared) {
+    sourceMatrix = multiplyTransform(
+      [
+        naturalWidth / prepared.naturalWidth,
+        0,
+        0,
+        naturalHeight / prepared.naturalHeight,
+        0,
+        0,
+      ],
+      getOriginalMatrix(prepared),
+    );
+  } else if (source) {
+    const size = getSourceSize(source);
+    sourceMatrix = [
+      naturalWidth / size.width,
+      0,
+      0,
+      naturalHeight / size.height,
+      0,
+      0,
+    ];
+  }
+
+  const plan = getCropPlan(
+    selection,
+    image.$getTransform(),
+    layout,
+    { naturalWidth, naturalHeight },
+    { ...planOptions, sourceMatrix },
+  );
+  if (!plan) {
+    throw new Error('The selection does not fit the export size limits');
+  }
+
+  // Plan before decoding, which may take a while
+  const bitmap = prepared ? await createImageBitmap(prepared.original) : null;
+
+  return {
+    source: bitmap ?? source ?? image.$image,
+    plan,
+    shape: scaleCropShape(shape, plan.width / selection.width),
+    release: () => bitmap?.close(),
+  };
+};
+
+export function exportOriginalCrop(
+  selection: CropperSelectionElement,
+  options: ExportOriginalCropOptions & { fileName: string },
+): Promise<File>;
+export function exportOriginalCrop(
+  selection: CropperSelectionElement,
+  options?: ExportOriginalCropOptions,
+): Promise<Blob>;
+/**
+ * Renders the selected area from the image source at its natural resolution,
+ * or at `width`, instead of at the size the canvas is shown.
+ */
+export async function exportOriginalCrop(
+  selection: CropperSelectionElement,
+  options: ExportOriginalCropOptions = {},
+): Promise<Blob | File> {
+  const { type = 'image/png', quality, fillColor, fileName } = options;
+  const { source, plan, shape, release } = await resolveOriginalCrop(
+    selection,
+    options,
+  );
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = plan.width;
+    canvas.height = plan.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to render the cropped image');
+    }
+
+    drawCropPlan(context, source, plan);
+    applyCropShape(context, shape, plan.width, plan.height, fillColor);
+    const blob = await canvasToBlob(canvas, type, quality);
+
+    return fileName ? new File([blob], fileName, { type: blob.type }) : blob;
+  } finally {
+    release();
+  }
+}
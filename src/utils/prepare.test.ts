@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  fromOriginalRect,
+  type PreparedImage,
+  prepareImage,
+  toOriginalRect,
+} from './prepare';
+
+// A JPEG header whose EXIF orientation is 6, turned right
+const rotatedJpeg = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xe1, 0, 34, 0x45, 0x78, 0x69, 0x66, 0, 0, 0x4d, 0x4d, 0,
+  42, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6, 0, 0, 0, 0, 0, 0,
+  0xff, 0xda,
+]);
+
+const createFile = (bytes: Uint8Array, type = 'image/jpeg') =>
+  ({
+    type,
+    arrayBuffer: async () => bytes.buffer,
+  }) as Blob;
+
+describe('prepareImage', () => {
+  const context = {
+    imageSmoothingQuality: 'low',
+    scale: vi.fn(),
+    transform: vi.fn(),
+    drawImage: vi.fn(),
+  };
+  const close = vi.fn();
+  const proxy = new Blob(['proxy']);
+
+  beforeEach(() => {
+    vi.stubGlobal(
+      'createImageBitmap',
+      vi.fn(async () => ({ width: 4000, height: 3000, close })),
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+      context as unknown as CanvasRenderingContext2D,
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(
+      (callback) => callback(proxy),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('turns the image upright and scales it down', async () => {
+    const prepared = await prepareImage(createFile(rotatedJpeg), {
+      maxWidth: 1500,
+      maxHeight: 1500,
+    });
+
+    expect(prepared).toMatchObject({
+      blob: proxy,
+      orientation: 6,
+      width: 1125,
+      height: 1500,
+      naturalWidth: 3000,
+      naturalHeight: 4000,
+    });
+    expect(context.scale).toHaveBeenCalledWith(0.375, 0.375);
+    expect(context.transform).toHaveBeenCalledWith(0, 1, -1, 0, 3000, 0);
+    expect(close).toHaveBeenCalled();
+
+    // The original is decoded without its orientation
+    expect(createImageBitmap).toHaveBeenCalledWith(prepared.original);
+    expect(prepared.original.size).toBe(rotatedJpeg.length);
+  });
+
+  it('keeps upright files within the limits', async () => {
+    const file = createFile(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+      'image/png',
+    );
+    const prepared = await prepareImage(file, { maxWidth: 5000 });
+
+    expect(prepared.blob).toBe(file);
+    expect(prepared.original).toBe(file);
+    expect(context.drawImage).not.toHaveBeenCalled();
+  });
+});
+
+describe('toOriginalRect', () => {
+  const prepared = {
+    width: 1000,
+    height: 750,
+    naturalWidth: 4000,
+    naturalHeight: 3000,
+  } as PreparedImage;
+
+  it('maps proxy pixels to the original and back', () => {
+    const rect = { x: 100, y: 50, width: 200, height: 150 };
+
+    expect(toOriginalRect(rect, prepared)).toEqual({
+      x: 400,
+      y: 200,
+      width: 800,
+      height: 600,
+    });
+    expect(fromOriginalRect(toOriginalRect(rect, prepared), prepared)).toEqual(
+      rect,
+    );
+  });
+});
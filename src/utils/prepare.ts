@@ -0,0 +1,154 @@
+import type { CropperSelectionValue } from '../events';
+import {
+  type ExifOrientation,
+  getOrientationMatrix,
+  isOrientationTransposed,
+  readExifOrientation,
+  resetExifOrientation,
+} from './exif';
+import { canvasToBlob, getExportSize } from './export';
+
+export interface PrepareImageOptions {
+  /** The largest proxy width. The proxy keeps the original size by default. */
+  maxWidth?: number;
+  maxHeight?: number;
+  /** The MIME type of the proxy, the original's type by default. */
+  type?: string;
+  /** The encoder quality between 0 and 1, for lossy types. */
+  quality?: number;
+}
+
+export interface PreparedImage {
+  /** The upright proxy to show, within the maximum size. */
+  blob: Blob;
+  /**
+   * The original file with its EXIF orientation reset, so it decodes to the
+   * stored pixels in every browser. Draw it with `getOriginalMatrix`.
+   */
+  original: Blob;
+  /** The EXIF orientation of the original file. */
+  orientation: ExifOrientation;
+  /** The proxy size. */
+  width: number;
+  height: number;
+  /** The upright size of the original. */
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+/**
+ * Reads the EXIF orientation of an image file and turns it into an upright
+ * proxy, scaled down to fit `maxWidth` and `maxHeight`. Upright files within
+ * the limits are kept as they are.
+ */
+export const prepareImage = async (
+  file: Blob,
+  { maxWidth, maxHeight, type, quality }: PrepareImageOptions = {},
+): Promise<PreparedImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const orientation = readExifOrientation(bytes);
+  const original =
+    orientation === 1
+      ? file
+      : new Blob([resetExifOrientation(bytes)], { type: file.type });
+
+  const bitmap = await createImageBitmap(original);
+  try {
+    const transposed = isOrientationTransposed(orientation);
+    const naturalWidth = transposed ? bitmap.height : bitmap.width;
+    const naturalHeight = transposed ? bitmap.width : bitmap.height;
+    const size = getExportSize(
+      { width: naturalWidth, height: naturalHeight },
+      { maxWidth, maxHeight },
+    );
+    if (!size) {
+      throw new Error('Failed to decode the image');
+    }
+
+    const { width, height } = size;
+    const prepared = {
+      original,
+      orientation,
+      width,
+      height,
+      naturalWidth,
+      naturalHeight,
+    };
+
+    if (
+      orientation === 1 &&
+      width === naturalWidth &&
+      height === naturalHeight
+    ) {
+      return { ...prepared, blob: file };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to prepare the image');
+    }
+
+    context.imageSmoothingQuality = 'high';
+    context.scale(width / naturalWidth, height / naturalHeight);
+    context.transform(
+      ...getOrientationMatrix(orientation, naturalWidth, naturalHeight),
+    );
+    context.drawImage(bitmap, 0, 0);
+
+    return {
+      ...prepared,
+      blob: await canvasToBlob(canvas, type ?? file.type, quality),
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * The canvas transform that draws the decoded `original` upright, at its
+ * natural size.
+ */
+export const getOriginalMatrix = ({
+  orientation,
+  naturalWidth,
+  naturalHeight,
+}: PreparedImage) =>
+  getOrientationMatrix(orientation, naturalWidth, naturalHeight);
+
+/**
+ * Maps a rect in natural pixels of the proxy, e.g. from `toNaturalRect`, to
+ * pixels of the upright original.
+ */
+export const toOriginalRect = (
+  { x, y, width, height }: CropperSelectionValue,
+  prepared: PreparedImage,
+): CropperSelectionValue => {
+  const scaleX = prepared.naturalWidth / prepared.width;
+  const scaleY = prepared.naturalHeight / prepared.height;
+
+  return {
+    x: x * scaleX,
+    y: y * scaleY,
+    width: width * scaleX,
+    height: height * scaleY,
+  };
+};
+
+/** Maps a rect in pixels of the upright original to the proxy. */
+export const fromOriginalRect = (
+  { x, y, width, height }: CropperSelectionValue,
+  prepared: PreparedImage,
+): CropperSelectionValue => {
+  const scaleX = prepared.width / prepared.naturalWidth;
+  const scaleY = prepared.height / prepared.naturalHeight;
+
+  return {
+    x: x * scaleX,
+    y: y * scaleY,
+    width: width * scaleX,
+    height: height * scaleY,
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyCropShape, scaleCropShape } from './shape';
+
+const createContext = () => {
+  const calls: string[] = [];
+  const context = {
+    globalCompositeOperation: 'source-over',
+    fillStyle: '',
+    save: vi.fn(),
+    restore: vi.fn(),
+    setTransform: vi.fn(),
+    scale: vi.fn(),
+    beginPath: vi.fn(),
+    closePath: vi.fn(),
+    moveTo: vi.fn(),
+    arcTo: vi.fn(),
+    ellipse: vi.fn(),
+    fill: vi.fn(() => {
+      calls.push(`fill ${context.globalCompositeOperation}`);
+    }),
+    fillRect: vi.fn(() => {
+      calls.push(`fillRect ${context.globalCompositeOperation}`);
+    }),
+  };
+  return { context, calls };
+};
+
+type Context = Parameters<typeof applyCropShape>[0];
+
+describe('applyCropShape', () => {
+  it('masks to an ellipse and fills behind it', () => {
+    const { context, calls } = createContext();
+    applyCropShape(context as unknown as Context, 'ellipse', 200, 100, '#fff');
+
+    expect(context.ellipse).toHaveBeenCalledWith(
+      100,
+      50,
+      100,
+      50,
+      0,
+      0,
+      Math.PI * 2,
+    );
+    expect(calls).toEqual(['fill destination-in', 'fillRect destination-over']);
+    expect(context.restore).toHaveBeenCalled();
+  });
+
+  it('limits rounded corners to half the shorter side', () => {
+    const { context } = createContext();
+    applyCropShape(
+      context as unknown as Context,
+      { type: 'rounded', radius: 80 },
+      200,
+      100,
+    );
+
+    expect(context.moveTo).toHaveBeenCalledWith(50, 0);
+    expect(context.arcTo).toHaveBeenCalledWith(200, 0, 200, 100, 50);
+  });
+
+  it('only flattens rectangular crops', () => {
+    const { context, calls } = createContext();
+    applyCropShape(context as unknown as Context, 'rect', 200, 100, '#fff');
+
+    expect(calls).toEqual(['fillRect destination-over']);
+  });
+});
+
+describe('scaleCropShape', () => {
+  it('scales corner radii', () => {
+    expect(scaleCropShape({ type: 'rounded', radius: 8 }, 2.5)).toEqual({
+      type: 'rounded',
+      radius: 20,
+    });
+    expect(scaleCropShape('ellipse', 2.5)).toBe('ellipse');
+  });
+});
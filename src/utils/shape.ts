@@ -0,0 +1,77 @@
+/**
+ * The outline of a crop. `radius` is in canvas pixels. A `path` is SVG path
+ * data in a unit box, from 0 to 1 on both axes, stretched over the selection
+ * like `clipPathUnits="objectBoundingBox"`.
+ */
+export type CropShape =
+  | 'rect'
+  | 'ellipse'
+  | { type: 'rounded'; radius: number }
+  | { type: 'path'; path: string };
+
+/** Whether a shape leaves the corners of the crop out. */
+export const isShapedCrop = (shape: CropShape | undefined) =>
+  shape !== undefined && shape !== 'rect';
+
+/**
+ * Scales the lengths of a shape, e.g. from canvas pixels to export pixels.
+ */
+export const scaleCropShape = (shape: CropShape, scale: number): CropShape =>
+  typeof shape === 'object' && shape.type === 'rounded'
+    ? { type: 'rounded', radius: shape.radius * scale }
+    : shape;
+
+/**
+ * Masks a painted crop to its shape, leaving transparency outside, then
+ * paints `fillColor` behind it, e.g. to flatten the crop for JPEG. Export
+ * workers run this function from its source, so it only uses its arguments.
+ */
+export const applyCropShape = (
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  shape: CropShape,
+  width: number,
+  height: number,
+  fillColor?: string,
+) => {
+  context.save();
+  context.setTransform(1, 0, 0, 1, 0, 0);
+
+  if (shape !== 'rect') {
+    context.globalCompositeOperation = 'destination-in';
+    context.fillStyle = '#000';
+    context.beginPath();
+    if (shape === 'ellipse') {
+      context.ellipse(
+        width / 2,
+        height / 2,
+        width / 2,
+        height / 2,
+        0,
+        0,
+        Math.PI * 2,
+      );
+      context.fill();
+    } else if (shape.type === 'rounded') {
+      const radius = Math.max(0, Math.min(shape.radius, width / 2, height / 2));
+      context.moveTo(radius, 0);
+      context.arcTo(width, 0, width, height, radius);
+      context.arcTo(width, height, 0, height, radius);
+      context.arcTo(0, height, 0, 0, radius);
+      context.arcTo(0, 0, width, 0, radius);
+      context.closePath();
+      context.fill();
+    } else {
+      context.scale(width, height);
+      context.fill(new Path2D(shape.path));
+      context.setTransform(1, 0, 0, 1, 0, 0);
+    }
+  }
+
+  if (fillColor) {
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = fillColor;
+    context.fillRect(0, 0, width, height);
+  }
+
+  context.restore();
+};
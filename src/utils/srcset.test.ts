@@ -0,0 +1,94 @@
+import type { CropperSelection as CropperSelectionElement } from 'cropperjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resolveOriginalCrop } from './original';
+import { exportCropSrcset } from './srcset';
+
+vi.mock('./original', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./original')>()),
+  resolveOriginalCrop: vi.fn(),
+}));
+
+const selection = {} as CropperSelectionElement;
+
+describe('exportCropSrcset', () => {
+  // Canvas sizes each canvas was drawn from, by the canvas drawn to
+  const draws: [from: string, to: string][] = [];
+  const fills: string[] = [];
+  const release = vi.fn();
+
+  beforeEach(() => {
+    vi.mocked(resolveOriginalCrop).mockResolvedValue({
+      source: {} as CanvasImageSource,
+      plan: { width: 2000, height: 1000, matrix: [1, 0, 0, 1, 0, 0] },
+      shape: 'rect',
+      release,
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      function (this: HTMLCanvasElement) {
+        return {
+          setTransform: vi.fn(),
+          fillRect: vi.fn(() => {
+            fills.push(`${this.width}`);
+          }),
+          drawImage: vi.fn((source: { width?: number }) => {
+            draws.push([`${source.width ?? 'source'}`, `${this.width}`]);
+          }),
+        } as unknown as CanvasRenderingContext2D;
+      } as never,
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(
+      (callback, type) => callback(new Blob(['image'], { type })),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    draws.length = 0;
+    fills.length = 0;
+  });
+
+  it('encodes named renditions and a srcset for each type', async () => {
+    const { renditions, srcset } = await exportCropSrcset(
+      selection,
+      [
+        { width: 320, type: 'image/webp', quality: 0.8 },
+        { width: 640, type: 'image/webp', quality: 0.8 },
+        { width: 640, type: 'image/jpeg', fillColor: '#fff' },
+      ],
+      { name: 'hero', getUrl: (name) => `/media/${name}` },
+    );
+
+    expect(
+      renditions.map(({ file, width, height }) => [file.name, width, height]),
+    ).toEqual([
+      ['hero-320.webp', 320, 160],
+      ['hero-640.webp', 640, 320],
+      ['hero-640.jpg', 640, 320],
+    ]);
+    expect(srcset).toEqual({
+      'image/webp': '/media/hero-320.webp 320w, /media/hero-640.webp 640w',
+      'image/jpeg': '/media/hero-640.jpg 640w',
+    });
+    expect(release).toHaveBeenCalled();
+    // Only the JPEG is flattened
+    expect(fills).toEqual(['640']);
+  });
+
+  it('halves the crop step by step before the final resize', async () => {
+    await exportCropSrcset(selection, [{ width: 300 }, { width: 900 }]);
+
+    expect(draws).toEqual([
+      ['source', '2000'],
+      ['2000', '1000'],
+      ['1000', '900'],
+      ['1000', '500'],
+      ['500', '300'],
+    ]);
+  });
+
+  it('rejects empty widths', async () => {
+    await expect(exportCropSrcset(selection, [{ width: 0 }])).rejects.toThrow(
+      'Rendition widths must be positive',
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import type { CropperSelection as CropperSelectionElement } from 'cropperjs';
+import { canvasToBlob, type ExportSize } from './export';
+import {
+  drawCropPlan,
+  type ExportOriginalCropOptions,
+  resolveOriginalCrop,
+} from './original';
+import { applyCropShape, isShapedCrop } from './shape';
+
+export interface CropRenditionTarget {
+  width: number;
+  /** The MIME type of the output, `image/png` by default. */
+  type?: string;
+  /** The encoder quality between 0 and 1, for lossy types. */
+  quality?: number;
+  /** Painted behind the image, e.g. to flatten transparency for JPEG. */
+  fillColor?: string;
+}
+
+export interface ExportSrcsetOptions
+  extends Pick<
+    ExportOriginalCropOptions,
+    'source' | 'prepared' | 'fillColor' | 'shape'
+  > {
+  /** The file name before the width and extension, `'crop'` by default. */
+  name?: string;
+  /** Turns a file name into its URL in the `srcset`. Names are kept by default. */
+  getUrl?: (name: string) => string;
+}
+
+export interface CropRendition extends ExportSize {
+  /** The encoded rendition, named like `crop-640.webp`. */
+  file: File;
+}
+
+export interface ExportSrcsetResult {
+  renditions: CropRendition[];
+  /** A `srcset` value for each MIME type, widest last. */
+  srcset: Record<string, string>;
+}
+
+const extensions: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+};
+
+const getExtension = (type: string) =>
+  extensions[type] ?? type.replace(/^.*\//, '');
+
+const createCanvas = ({ width, height }: ExportSize) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to render the cropped image');
+  }
+
+  context.imageSmoothingQuality = 'high';
+  return { canvas, context };
+};
+
+const resample = (source: HTMLCanvasElement, size: ExportSize) => {
+  const { canvas, context } = createCanvas(size);
+  context.drawImage(source, 0, 0, size.width, size.height);
+  return canvas;
+};
+
+/**
+ * Renders the selection once at the source's natural resolution and encodes
+ * a rendition for each target width, for a responsive `srcset`. Downscaling
+ * halves the size step by step before the final resize, which keeps detail
+ * that a single large reduction would alias away.
+ */
+export const exportCropSrcset = async (
+  selection: CropperSelectionElement,
+  targets: CropRenditionTarget[],
+  {
+    name = 'crop',
+    getUrl = (fileName) => fileName,
+    fillColor,
+    ...options
+  }: ExportSrcsetOptions = {},
+): Promise<ExportSrcsetResult> => {
+  if (targets.some(({ width }) => !(width > 0))) {
+    throw new Error('Rendition widths must be positive');
+  }
+
+  const { source, plan, shape, release } = await resolveOriginalCrop(
+    selection,
+    options,
+  );
+  // The halving steps from the full-resolution crop, largest first
+  const steps: HTMLCanvasElement[] = [];
+  try {
+    const { canvas, context } = createCanvas(plan);
+    drawCropPlan(context, source, plan);
+    if (isShapedCrop(shape)) {
+      applyCropShape(context, shape, plan.width, plan.height);
+    }
+    steps.push(canvas);
+  } finally {
+    release();
+  }
+
+  const getStep = (width: number) => {
+    let step = steps[steps.length - 1];
+    while (step.width >= width * 2 && step.width > 1) {
+      step = resample(step, {
+        width: Math.round(step.width / 2),
+        height: Math.max(1, Math.round(step.height / 2)),
+      });
+      steps.push(step);
+    }
+    // Reuse an earlier step when a narrower one was made for another target
+    return steps.reduce((closest, candidate) =>
+      candidate.width >= width && candidate.width < closest.width
+        ? candidate
+        : closest,
+    );
+  };
+
+  // Widest first, so each target continues the halving of the previous one
+  const sorted = [...targets].sort((a, b) => b.width - a.width);
+  const rendered = new Map<CropRenditionTarget, CropRendition>();
+  for (const target of sorted) {
+    const { width, type = 'image/png', quality } = target;
+    const size = {
+      width,
+      height: Math.max(1, Math.round((width * plan.height) / plan.width)),
+    };
+    const step = getStep(width);
+    const background = target.fillColor ?? fillColor;
+
+    let canvas =
+      step.width === size.width && step.height === size.height
+        ? step
+        : resample(step, size);
+    if (background) {
+      const flattened = createCanvas(size);
+      flattened.context.fillStyle = background;
+      flattened.context.fillRect(0, 0, size.width, size.height);
+      flattened.context.drawImage(canvas, 0, 0);
+      canvas = flattened.canvas;
+    }
+
+    const blob = await canvasToBlob(canvas, type, quality);
+    const file = new File(
+      [blob],
+      `${name}-${width}.${getExtension(blob.type || type)}`,
+      { type: blob.type || type },
+    );
+    rendered.set(target, { ...size, file });
+  }
+
+  const renditions = targets.map(
+    (target) => rendered.get(target) as CropRendition,
+  );
+  const srcset: Record<string, string> = {};
+  [...renditions]
+    .sort((a, b) => a.width - b.width)
+    .forEach(({ file, width }) => {
+      const entry = `${getUrl(file.name)} ${width}w`;
+      srcset[file.type] = srcset[file.type]
+        ? `${srcset[file.type]}, ${entry}`
+        : entry;
+    });
+
+  return { renditions, srcset };
+};
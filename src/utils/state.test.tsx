@@ -0,0 +1,79 @@
+import { render } from '@testing-library/react';
+import type {
+  CropperCanvas as CropperCanvasElement,
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
+import { describe, expect, it } from 'vitest';
+import { CropperCanvas } from '../components/CropperCanvas';
+import { CropperImage } from '../components/CropperImage';
+import { CropperSelection } from '../components/CropperSelection';
+import { applyCropState, getCropState, parseCropState } from './state';
+
+const renderCanvas = (width: number, height: number) => {
+  const { container } = render(
+    <CropperCanvas>
+      <CropperImage rotatable scalable translatable />
+      <CropperSelection />
+    </CropperCanvas>,
+  );
+  const canvas = container.querySelector(
+    'cropper-canvas',
+  ) as CropperCanvasElement;
+  const image = container.querySelector('cropper-image') as CropperImageElement;
+  Object.defineProperty(canvas, 'offsetWidth', { value: width });
+  Object.defineProperty(canvas, 'offsetHeight', { value: height });
+  Object.defineProperty(image, 'offsetWidth', { value: 200 });
+  Object.defineProperty(image, 'offsetHeight', { value: 100 });
+  const selection = container.querySelector(
+    'cropper-selection',
+  ) as CropperSelectionElement;
+  return { canvas, image, selection };
+};
+
+const state = {
+  version: 1,
+  image: { matrix: [1, 0, 0, 1, -0.5, -0.25] },
+  selections: [{ x: -0.5, y: -0.5, width: 0.5, height: 0.25, aspectRatio: 2 }],
+};
+
+describe('parseCropState', () => {
+  it('accepts states that survive JSON', () => {
+    expect(parseCropState(JSON.parse(JSON.stringify(state)))).toEqual(state);
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parseCropState(null)).toThrow('`state`');
+    expect(() => parseCropState({ ...state, version: 2 })).toThrow('`version`');
+    expect(() =>
+      parseCropState({ ...state, image: { matrix: [1, 0, 0, 1] } }),
+    ).toThrow('`image.matrix`');
+    expect(() =>
+      parseCropState({
+        ...state,
+        selections: [{ ...state.selections[0], width: -1 }],
+      }),
+    ).toThrow('`selections[0].width`');
+  });
+});
+
+describe('getCropState', () => {
+  it('captures the canvas relative to its center', () => {
+    const { canvas, selection } = renderCanvas(400, 200);
+    selection.aspectRatio = 2;
+    selection.$change(100, 0, 100, 50);
+    expect(getCropState(canvas)).toEqual(state);
+  });
+});
+
+describe('applyCropState', () => {
+  it('restores the composition on a canvas of another size', () => {
+    const { canvas, image, selection } = renderCanvas(800, 400);
+    expect(applyCropState(canvas, parseCropState(state))).toBe(true);
+    expect(image.$getTransform()).toEqual([2, 0, 0, 2, 100, 50]);
+    expect(selection.x).toBe(200);
+    expect(selection.width).toBe(200);
+    expect(selection.height).toBe(100);
+    expect(selection.aspectRatio).toBe(2);
+  });
+});
@@ -0,0 +1,210 @@
+import type {
+  CropperCanvas as CropperCanvasElement,
+  CropperImage as CropperImageElement,
+  CropperSelection as CropperSelectionElement,
+} from 'cropperjs';
+import { getRelatedTagName } from '../elements';
+import type { CropperSelectionValue } from '../events';
+import { getImageLayout } from './geometry';
+import type { CropperImageMatrix } from './transform';
+
+export const CROP_STATE_VERSION = 1;
+
+export interface CropSelectionState extends CropperSelectionValue {
+  /** The fixed aspect ratio, or `null` for a free one. */
+  aspectRatio: number | null;
+}
+
+/**
+ * A JSON-serializable crop session. Lengths are in units of the canvas's
+ * shorter side and positions are relative to its center, so a state restores
+ * the same composition on a canvas of any size.
+ */
+export interface CropState {
+  version: typeof CROP_STATE_VERSION;
+  image: {
+    /**
+     * The image transform. The linear part maps the whole image box and the
+     * translation places the box's center.
+     */
+    matrix: CropperImageMatrix;
+  };
+  selections: CropSelectionState[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid crop state: \`${path}\` must be ${expected}`);
+};
+
+const parseSelection = (value: unknown, path: string): CropSelectionState => {
+  if (!isRecord(value)) return fail(path, 'an object');
+
+  const { x, y, width, height, aspectRatio } = value;
+  if (!isFiniteNumber(x)) fail(`${path}.x`, 'a finite number');
+  if (!isFiniteNumber(y)) fail(`${path}.y`, 'a finite number');
+  if (!isFiniteNumber(width) || width < 0) {
+    fail(`${path}.width`, 'a non-negative number');
+  }
+  if (!isFiniteNumber(height) || height < 0) {
+    fail(`${path}.height`, 'a non-negative number');
+  }
+  if (
+    aspectRatio !== null &&
+    !(isFiniteNumber(aspectRatio) && aspectRatio > 0)
+  ) {
+    fail(`${path}.aspectRatio`, 'a positive number or null');
+  }
+
+  return {
+    x: x as number,
+    y: y as number,
+    width: width as number,
+    height: height as number,
+    aspectRatio: aspectRatio as number | null,
+  };
+};
+
+/**
+ * Validates untrusted input, such as parsed JSON, as a crop state. Throws an
+ * error naming the first invalid field.
+ */
+export const parseCropState = (value: unknown): CropState => {
+  if (!isRecord(value)) return fail('state', 'an object');
+  if (value.version !== CROP_STATE_VERSION) {
+    fail('version', String(CROP_STATE_VERSION));
+  }
+
+  const { image, selections } = value;
+  if (!isRecord(image)) return fail('image', 'an object');
+
+  const { matrix } = image;
+  if (
+    !Array.isArray(matrix) ||
+    matrix.length !== 6 ||
+    !matrix.every(isFiniteNumber)
+  ) {
+    return fail('image.matrix', 'an array of 6 finite numbers');
+  }
+  if (!(matrix[0] * matrix[3] - matrix[1] * matrix[2])) {
+    fail('image.matrix', 'invertible');
+  }
+
+  if (!Array.isArray(selections)) return fail('selections', 'an array');
+
+  return {
+    version: CROP_STATE_VERSION,
+    image: { matrix: [...matrix] as CropperImageMatrix },
+    selections: selections.map((selection, index) =>
+      parseSelection(selection, `selections[${index}]`),
+    ),
+  };
+};
+
+// Measures the canvas and its image, or returns `null` until both have a size
+const measure = (canvas: CropperCanvasElement) => {
+  const image = canvas.querySelector(
+    getRelatedTagName(canvas, 'image'),
+  ) as CropperImageElement;
+  const layout = image && getImageLayout(image);
+  const { offsetWidth: width, offsetHeight: height } = canvas;
+  if (!layout || !width || !height) {
+    return null;
+  }
+
+  return {
+    image,
+    layout,
+    centerX: width / 2,
+    centerY: height / 2,
+    unit: Math.min(width, height),
+    selections: Array.from(
+      canvas.querySelectorAll(getRelatedTagName(canvas, 'selection')),
+    ) as CropperSelectionElement[],
+  };
+};
+
+/**
+ * Captures the image transform and selections of a canvas. Returns `null`
+ * until the canvas and image have a size.
+ */
+export const getCropState = (
+  canvas: CropperCanvasElement,
+): CropState | null => {
+  const measured = measure(canvas);
+  if (!measured) return null;
+
+  const { image, layout, centerX, centerY, unit, selections } = measured;
+  const [a, b, c, d, e, f] = image.$getTransform();
+  const scale = layout.width / unit;
+
+  return {
+    version: CROP_STATE_VERSION,
+    image: {
+      matrix: [
+        a * scale,
+        b * scale,
+        c * scale,
+        d * scale,
+        (layout.offset.x + layout.width / 2 + e - centerX) / unit,
+        (layout.offset.y + layout.height / 2 + f - centerY) / unit,
+      ],
+    },
+    selections: selections.map(({ x, y, width, height, aspectRatio }) => ({
+      x: (x - centerX) / unit,
+      y: (y - centerY) / unit,
+      width: width / unit,
+      height: height / unit,
+      aspectRatio: aspectRatio > 0 ? aspectRatio : null,
+    })),
+  };
+};
+
+/**
+ * Restores a crop state, validating it first. Selections are matched to the
+ * canvas's selections in order. The image must allow the transform, e.g.
+ * through `rotatable` and `scalable`. Returns `false` until the canvas and
+ * image have a size.
+ */
+export const applyCropState = (
+  canvas: CropperCanvasElement,
+  state: CropState,
+) => {
+  const { image: imageState, selections: selectionStates } =
+    parseCropState(state);
+  const measured = measure(canvas);
+  if (!measured) return false;
+
+  const { image, layout, centerX, centerY, unit, selections } = measured;
+  const [a, b, c, d, e, f] = imageState.matrix;
+  const scale = unit / layout.width;
+  image.$setTransform(
+    a * scale,
+    b * scale,
+    c * scale,
+    d * scale,
+    centerX + e * unit - layout.offset.x - layout.width / 2,
+    centerY + f * unit - layout.offset.y - layout.height / 2,
+  );
+
+  selections.forEach((selection, index) => {
+    const selectionState = selectionStates[index];
+    if (!selectionState) return;
+
+    const { x, y, width, height, aspectRatio } = selectionState;
+    selection.aspectRatio = aspectRatio ?? Number.NaN;
+    selection.$change(
+      centerX + x * unit,
+      centerY + y * unit,
+      width * unit,
+      height * unit,
+    );
+  });
+
+  return true;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  composeTransform,
+  decomposeTransform,
+  multiplyTransform,
+  toMatrix,
+} from './transform';
+
+describe('composeTransform', () => {
+  it('returns the identity matrix by default', () => {
+    expect(composeTransform({})).toEqual([1, 0, 0, 1, 0, 0]);
+  });
+
+  it('scales, rotates and translates', () => {
+    const [a, b, c, d, e, f] = composeTransform({
+      rotate: 90,
+      scaleX: 2,
+      translateX: 10,
+      translateY: 20,
+    });
+    expect(a).toBeCloseTo(0);
+    expect(b).toBeCloseTo(2);
+    expect(c).toBeCloseTo(-1);
+    expect(d).toBeCloseTo(0);
+    expect([e, f]).toEqual([10, 20]);
+  });
+});
+
+describe('decomposeTransform', () => {
+  it('round-trips composed parts', () => {
+    const parts = decomposeTransform(
+      composeTransform({
+        rotate: 30,
+        scaleX: 1.5,
+        scaleY: -1.5,
+        translateX: 5,
+      }),
+    );
+    expect(parts.rotate).toBeCloseTo(30);
+    expect(parts.scaleX).toBeCloseTo(1.5);
+    expect(parts.scaleY).toBeCloseTo(-1.5);
+    expect(parts.translateX).toBe(5);
+    expect(parts.translateY).toBe(0);
+  });
+});
+
+describe('toMatrix', () => {
+  it('passes matrices through', () => {
+    expect(toMatrix([1, 0, 0, -1, 3, 4])).toEqual([1, 0, 0, -1, 3, 4]);
+  });
+});
+
+describe('multiplyTransform', () => {
+  it('applies the second matrix first', () => {
+    expect(multiplyTransform([2, 0, 0, 2, 10, 0], [1, 0, 0, 1, 5, 5])).toEqual([
+      2, 0, 0, 2, 20, 10,
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+/** A 2D affine matrix in `[a, b, c, d, e, f]` order, as used by `$setTransform`. */
+export type CropperImageMatrix = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+/** A transform split into its parts. `rotate` is in degrees. */
+export interface CropperImageTransformParts {
+  rotate?: number;
+  scaleX?: number;
+  scaleY?: number;
+  translateX?: number;
+  translateY?: number;
+}
+
+export type CropperImageTransform =
+  | CropperImageMatrix
+  | CropperImageTransformParts;
+
+export const IDENTITY_MATRIX: CropperImageMatrix = [1, 0, 0, 1, 0, 0];
+
+// Copies the first six values, turning negative zeros into zeros
+const normalizeMatrix = (matrix: readonly number[]) =>
+  matrix.slice(0, 6).map((value) => value + 0) as CropperImageMatrix;
+
+/**
+ * Builds a matrix that scales, then rotates, then translates.
+ */
+export const composeTransform = ({
+  rotate = 0,
+  scaleX = 1,
+  scaleY = 1,
+  translateX = 0,
+  translateY = 0,
+}: CropperImageTransformParts): CropperImageMatrix => {
+  const radian = (rotate * Math.PI) / 180;
+  const cos = Math.cos(radian);
+  const sin = Math.sin(radian);
+
+  return normalizeMatrix([
+    scaleX * cos,
+    scaleX * sin,
+    -scaleY * sin,
+    scaleY * cos,
+    translateX,
+    translateY,
+  ]);
+};
+
+/**
+ * Splits a matrix into its parts. Skew is dropped, and a flip is always
+ * reported on the vertical axis (a horizontal flip reads as `scaleY: -1`
+ * with a 180° rotation).
+ */
+export const decomposeTransform = ([
+  a,
+  b,
+  c,
+  d,
+  e,
+  f,
+]: readonly number[]): Required<CropperImageTransformParts> => {
+  const scaleX = Math.hypot(a, b);
+  const determinant = a * d - b * c;
+
+  return {
+    rotate: (Math.atan2(b, a) * 180) / Math.PI,
+    scaleX,
+    scaleY: scaleX === 0 ? 0 : determinant / scaleX,
+    translateX: e,
+    translateY: f,
+  };
+};
+
+export const toMatrix = (
+  transform: CropperImageTransform,
+): CropperImageMatrix =>
+  Array.isArray(transform)
+    ? normalizeMatrix(transform)
+    : composeTransform(transform);
+
+/**
+ * Multiplies two matrices. The result applies `second` first, like calling
+ * `context.transform(...first)` then `context.transform(...second)`.
+ */
+export const multiplyTransform = (
+  [a1, b1, c1, d1, e1, f1]: readonly number[],
+  [a2, b2, c2, d2, e2, f2]: readonly number[],
+): CropperImageMatrix =>
+  normalizeMatrix([
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ]);
@@ -10,10 +10,12 @@ declare global {
         ref?: import('react').RefObject<
           import('cropperjs').CropperCanvas | null
         >;
+        'shadow-root-mode'?: ShadowRootMode;
+        slottable?: boolean;
+        'theme-color'?: string;
         background?: boolean;
         disabled?: boolean;
         'scale-step'?: number;
-        'theme-color'?: string;
       };
       'cropper-image': import('react').DetailedHTMLProps<
         import('react').HTMLAttributes<HTMLElement>,
@@ -22,6 +24,20 @@ declare global {
         ref?: import('react').RefObject<
           import('cropperjs').CropperImage | null
         >;
+        'shadow-root-mode'?: ShadowRootMode;
+        slottable?: boolean;
+        'theme-color'?: string;
+        alt?: string;
+        crossorigin?: string;
+        decoding?: string;
+        elementtiming?: string;
+        fetchpriority?: string;
+        loading?: string;
+        referrerpolicy?: string;
+        sizes?: string;
+        src?: string;
+        srcset?: string;
+        'initial-center-size'?: string;
         rotatable?: boolean;
         scalable?: boolean;
         skewable?: boolean;
@@ -34,7 +50,13 @@ declare global {
         ref?: import('react').RefObject<
           import('cropperjs').CropperShade | null
         >;
+        'shadow-root-mode'?: ShadowRootMode;
+        slottable?: boolean;
         'theme-color'?: string;
+        x?: number;
+        y?: number;
+        width?: number;
+        height?: number;
       };
       'cropper-handle': import('react').DetailedHTMLProps<
         import('react').HTMLAttributes<HTMLElement>,
@@ -43,9 +65,11 @@ declare global {
         ref?: import('react').RefObject<
           import('cropperjs').CropperHandle | null
         >;
+        'shadow-root-mode'?: ShadowRootMode;
+        slottable?: boolean;
+        'theme-color'?: string;
         action?: string;
         plain?: boolean;
-        'theme-color'?: string;
       };
       'cropper-selection': import('react').DetailedHTMLProps<
         import('react').HTMLAttributes<HTMLElement>,
@@ -54,6 +78,9 @@ declare global {
         ref?: import('react').RefObject<
           import('cropperjs').CropperSelection | null
         >;
+        'shadow-root-mode'?: ShadowRootMode;
+        slottable?: boolean;
+        'theme-color'?: string;
         'aspect-ratio'?: number;
         'initial-aspect-ratio'?: number;
         'initial-coverage'?: number;
@@ -61,21 +88,29 @@ declare global {
         resizable?: boolean;
         zoomable?: boolean;
         multiple?: boolean;
+        active?: boolean;
+        dynamic?: boolean;
+        linked?: boolean;
+        x?: number;
+        y?: number;
+        width?: number;
+        height?: number;
         keyboard?: boolean;
         outlined?: boolean;
         precise?: boolean;
-        'theme-color'?: string;
       };
       'cropper-grid': import('react').DetailedHTMLProps<
         import('react').HTMLAttributes<HTMLElement>,
         HTMLElement
       > & {
         ref?: import('react').RefObject<import('cropperjs').CropperGrid | null>;
+        'shadow-root-mode'?: ShadowRootMode;
+        slottable?: boolean;
+        'theme-color'?: string;
         columns?: number;
         rows?: number;
         bordered?: boolean;
         covered?: boolean;
-        'theme-color'?: string;
       };
       'cropper-crosshair': import('react').DetailedHTMLProps<
         import('react').HTMLAttributes<HTMLElement>,
@@ -84,8 +119,23 @@ declare global {
         ref?: import('react').RefObject<
           import('cropperjs').CropperCrosshair | null
         >;
+        'shadow-root-mode'?: ShadowRootMode;
+        slottable?: boolean;
+        'theme-color'?: string;
         centered?: boolean;
+      };
+      'cropper-viewer': import('react').DetailedHTMLProps<
+        import('react').HTMLAttributes<HTMLElement>,
+        HTMLElement
+      > & {
+        ref?: import('react').RefObject<
+          import('cropperjs').CropperViewer | null
+        >;
+        'shadow-root-mode'?: ShadowRootMode;
+        slottable?: boolean;
         'theme-color'?: string;
+        resize?: 'both' | 'horizontal' | 'vertical' | 'none';
+        selection?: string;
       };
     }
   }
@@ -25,7 +25,7 @@ export default defineConfig({
       formats: ['es'],
     },
     rollupOptions: {
-      external: ['react', 'react-dom', 'cropperjs'],
+      external: ['react', 'react-dom', 'cropperjs', '@cropper/elements'],
       output: {
         globals: {
           react: 'React',